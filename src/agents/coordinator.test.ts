@@ -0,0 +1,69 @@
+// Agent Coordinator Tests - Uniqueness Across Siblings and Measured Quality
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AgentExecutionOutput, AgentExecutionRequest, AgentExecutor } from '../types/index.js';
+import { planTestWave } from '../testing/fixtures.js';
+import { AgentCoordinator } from './coordinator.js';
+import { MockExecutor } from '../executors/mockExecutor.js';
+import { WaveManager } from '../orchestration/waveManager.js';
+import { IterationCritic } from '../validation/critic.js';
+
+// Every agent produces the same artifact
+class CopyingExecutor implements AgentExecutor {
+  readonly name = 'copying';
+  
+  async execute(request: AgentExecutionRequest): Promise<AgentExecutionOutput> {
+    return {
+      content: 'export const SearchComponent = () => <input placeholder="Search" aria-label="Search" />;\n',
+      outputPath: request.outputPath,
+      tokenUsage: { promptTokens: 10, completionTokens: 10, totalTokens: 20 }
+    };
+  }
+}
+
+describe('AgentCoordinator', () => {
+  let directory: string;
+  
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'agent-coordinator-'));
+  });
+  
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+  
+  it('compares each iteration against the siblings of its wave written before it', async () => {
+    const coordinator = new AgentCoordinator(new CopyingExecutor());
+    const wave = planTestWave(directory);
+    const contextMonitor = new WaveManager(coordinator).createContextMonitor();
+    
+    const results = await coordinator.coordinateAgents(wave.agentAssignments, wave, contextMonitor);
+    
+    const scores = results.map(result => result.uniquenessScore).sort((a, b) => a! - b!);
+    expect(results.every(result => result.success)).toBe(true);
+    expect(scores).toEqual([0, 0, 100]);
+    results
+      .filter(result => result.uniquenessScore === 0)
+      .forEach(result => expect(result.uniqueness!.comparedIterations).toBeGreaterThan(0));
+  });
+  
+  it('leaves quality unscored without functional tests or a critic', async () => {
+    const coordinator = new AgentCoordinator(new MockExecutor());
+    const wave = planTestWave(directory);
+    
+    const results = await coordinator.coordinateAgents(wave.agentAssignments, wave, new WaveManager(coordinator).createContextMonitor());
+    
+    expect(results.map(result => result.qualityScore)).toEqual([null, null, null]);
+  });
+  
+  it('takes quality from the critic when one is configured', async () => {
+    const coordinator = new AgentCoordinator(new MockExecutor(), undefined, undefined, new IterationCritic(new MockExecutor()));
+    const wave = planTestWave(directory);
+    
+    const results = await coordinator.coordinateAgents(wave.agentAssignments, wave, new WaveManager(coordinator).createContextMonitor());
+    
+    results.forEach(result => expect(result.qualityScore).toBe(result.critique!.score));
+  });
+});
@@ -4,9 +4,24 @@ import {
   AgentAssignment,
   WaveResult,
   ContextMonitor,
-  UniversalSpecification,
-  GenerationWave
+  GenerationWave,
+  AgentExecutor,
+  TokenUsage,
+  UniquenessReport,
+  RuleEvaluation,
+  Critique
 } from '../types/index.js';
+import { createHash } from 'node:crypto';
+import { OutputWriter } from '../output/outputWriter.js';
+import { FailureHandling, RetryPolicy } from './retryPolicy.js';
+import { WorkerPool } from './workerPool.js';
+import { PromptTemplates } from '../prompts/builtInTemplates.js';
+import { PromptTemplateEngine } from '../prompts/promptTemplateEngine.js';
+import { IterationManifestStore } from '../output/iterationManifest.js';
+import { IterationDiscovery } from '../output/iterationDiscovery.js';
+import { ComparedIteration, UniquenessScorer } from '../validation/uniquenessScorer.js';
+import { ValidationRuleEngine } from '../validation/ruleEngine.js';
+import { CritiqueOutcome, IterationCritic } from '../validation/critic.js';
 
 export interface AgentExecutionContext {
   assignment: AgentAssignment;
@@ -15,8 +30,17 @@ export interface AgentExecutionContext {
   timeoutMs: number;
 }
 
+export interface AgentRunOptions {
+  failureHandling?: Partial<FailureHandling>; // Timeout and retry settings per agent
+  overwriteExisting?: boolean;
+  signal?: AbortSignal; // Queued agents are skipped once aborted; running agents finish
+  onResult?: (result: WaveResult) => void | Promise<void>; // Invoked as each agent finishes
+}
+
 export interface AgentProgress {
   agentId: string;
+  waveId: string;
+  iterationNumber: number;
   status: 'ASSIGNED' | 'STARTING' | 'IN_PROGRESS' | 'COMPLETING' | 'COMPLETED' | 'FAILED';
   progress: number; // 0-100
   estimatedCompletion: number; // Timestamp
@@ -25,9 +49,40 @@ export interface AgentProgress {
   progressNotes: string[];
 }
 
+// A written artifact with its scores, before validation rules are applied
+interface ExecutedIteration {
+  outputPath: string;
+  content: string;
+  tokenUsage: TokenUsage;
+  qualityScore: number | null;
+  uniquenessScore: number;
+  uniqueness: UniquenessReport;
+  critique?: Critique;
+}
+
+export type AgentProgressListener = (progress: AgentProgress) => void;
+
 export class AgentCoordinator {
   private activeAgents: Map<string, AgentProgress> = new Map();
   private completedAgents: Map<string, WaveResult> = new Map();
+  private executor: AgentExecutor;
+  private outputWriter: OutputWriter;
+  private progressListeners: Set<AgentProgressListener> = new Set();
+  private globalPool?: WorkerPool;
+  private uniquenessScorer = new UniquenessScorer();
+  private critic?: IterationCritic;
+  
+  constructor(
+    executor: AgentExecutor,
+    outputWriter: OutputWriter = new OutputWriter(),
+    maxConcurrentAgents?: number, // Cap on in-flight agents across all concurrent orchestrations
+    critic?: IterationCritic // Scores accepted iterations against the quality rubric
+  ) {
+    this.executor = executor;
+    this.outputWriter = outputWriter;
+    this.globalPool = maxConcurrentAgents ? new WorkerPool(maxConcurrentAgents) : undefined;
+    this.critic = critic;
+  }
   
   /**
    * Coordinate parallel agent execution with sophisticated assignment
@@ -35,14 +90,17 @@ export class AgentCoordinator {
   async coordinateAgents(
     assignments: AgentAssignment[],
     wave: GenerationWave,
-    contextMonitor: ContextMonitor
+    contextMonitor: ContextMonitor,
+    options: AgentRunOptions = {}
   ): Promise<WaveResult[]> {
-    console.log(`Coordinating ${assignments.length} agents for wave ${wave.id}`);
+    console.error(`Coordinating ${assignments.length} agents for wave ${wave.id}`);
     
     // Initialize agent tracking
     assignments.forEach(assignment => {
       this.activeAgents.set(assignment.agentId, {
         agentId: assignment.agentId,
+        waveId: wave.id,
+        iterationNumber: assignment.iterationNumber,
         status: 'ASSIGNED',
         progress: 0,
         estimatedCompletion: Date.now() + 120000, // 2 minute default
@@ -53,12 +111,37 @@ export class AgentCoordinator {
     });
     
     try {
-      // Execute agents in parallel with coordination
-      const executionPromises = assignments.map(assignment => 
-        this.executeCoordinatedAgent(assignment, wave, contextMonitor)
-      );
+      // Uniqueness is scored against the iterations on disk when the wave starts and the siblings written before
+      const comparisonSet: ComparedIteration[] = await IterationDiscovery.discover(wave.outputDirectory, wave.specification);
       
-      const results = await Promise.all(executionPromises);
+      // Sliding window: each agent starts as soon as one of the wave's slots frees up
+      const pool = new WorkerPool(Math.max(1, wave.maxConcurrency), this.globalPool);
+      const executionPromises = assignments.map(assignment => pool.run(async () => {
+        const result = await this.executeCoordinatedAgent(assignment, wave, contextMonitor, options, comparisonSet);
+        await options.onResult?.(result);
+        return result;
+      }, options.signal));
+      
+      // One agent's unexpected error must not discard the results of its siblings
+      const settled = await Promise.allSettled(executionPromises);
+      const results: WaveResult[] = [];
+      settled.forEach((outcome, index) => {
+        const assignment = assignments[index];
+        if (outcome.status === 'fulfilled') {
+          results.push(outcome.value);
+        } else if (options.signal?.aborted && this.activeAgents.get(assignment.agentId)?.status === 'ASSIGNED') {
+          // Never started: leave the iteration unrecorded so it can be planned again
+          this.activeAgents.delete(assignment.agentId);
+        } else {
+          results.push({
+            agentId: assignment.agentId,
+            iterationNumber: assignment.iterationNumber,
+            success: false,
+            errorMessage: `Agent coordination failed: ${outcome.reason}`,
+            completionTime: 0
+          });
+        }
+      });
       
       // Store completed results
       results.forEach(result => {
@@ -80,10 +163,13 @@ export class AgentCoordinator {
   private async executeCoordinatedAgent(
     assignment: AgentAssignment,
     wave: GenerationWave,
-    contextMonitor: ContextMonitor
+    contextMonitor: ContextMonitor,
+    options: AgentRunOptions,
+    comparisonSet: ComparedIteration[]
   ): Promise<WaveResult> {
     const startTime = Date.now();
     const agentProgress = this.activeAgents.get(assignment.agentId)!;
+    let attempts = 0;
     
     try {
       // Update status to starting
@@ -103,18 +189,103 @@ export class AgentCoordinator {
         progressNotes: ['Prompt generated, beginning execution']
       });
       
-      // Execute the agent (this would integrate with actual agent execution system)
-      const result = await this.executeAgent(agentPrompt, assignment, wave);
+      // Execute the agent through the configured executor backend, retrying on failure
+      const retryPolicy = new RetryPolicy(options.failureHandling);
+      const maxRepairs = Math.max(0, options.failureHandling?.maxRetries ?? 0);
+      let prompt = agentPrompt;
+      let tokenUsage: TokenUsage | undefined;
+      let result: ExecutedIteration;
+      let validation: RuleEvaluation[];
       
-      // Update to completing
-      this.updateAgentProgress(assignment.agentId, {
-        status: 'COMPLETING',
-        progress: 90,
-        progressNotes: ['Execution completed, finalizing output']
-      });
+      for (let repair = 0; ; repair++) {
+        result = await retryPolicy.run(
+          signal => {
+            attempts++;
+            return this.executeAgent(prompt, assignment, wave, options, comparisonSet, signal);
+          },
+          ({ attempt, maxAttempts, delayMs, error }) => {
+            this.updateAgentProgress(assignment.agentId, {
+              progressNotes: [`Attempt ${attempt}/${maxAttempts} failed: ${error}; retrying in ${delayMs}ms`]
+            });
+          },
+          options.signal
+        );
+        // Every generation consumes tokens, including those later rejected by validation
+        tokenUsage = this.addTokenUsage(tokenUsage, result.tokenUsage);
+        this.updateAgentProgress(assignment.agentId, { contextUsage: tokenUsage.totalTokens });
+        
+        // Update to completing
+        this.updateAgentProgress(assignment.agentId, {
+          status: 'COMPLETING',
+          progress: 90,
+          progressNotes: ['Execution completed, finalizing output']
+        });
+        
+        // Evaluate the specification's executable rules against the written artifact
+        validation = await ValidationRuleEngine.evaluate(wave.specification.validationRules, {
+          content: result.content,
+          outputPath: result.outputPath,
+          outputDirectory: wave.outputDirectory,
+          format: wave.specification.outputRequirements.format,
+          uniqueness: result.uniqueness
+        });
+        
+        // Syntax errors are worth another attempt with the diagnostics added to the prompt
+        const syntaxFailures = ValidationRuleEngine.failures(validation, 'ERROR', 'CRITICAL')
+          .filter(evaluation => evaluation.type === 'SYNTAX');
+        if (syntaxFailures.length === 0 || repair >= maxRepairs || options.signal?.aborted) {
+          break;
+        }
+        
+        await this.outputWriter.remove(result.outputPath);
+        prompt = this.appendValidationFeedback(agentPrompt, ValidationRuleEngine.failures(validation, 'ERROR', 'CRITICAL'));
+        this.updateAgentProgress(assignment.agentId, {
+          status: 'IN_PROGRESS',
+          progress: 20,
+          progressNotes: [`Repair ${repair + 1}/${maxRepairs}: regenerating after ${syntaxFailures.length} failed syntax rule(s)`]
+        });
+      }
+      
+      const validationNotes = ValidationRuleEngine.failures(validation, 'WARNING').map(ValidationRuleEngine.describe);
+      const blocking = ValidationRuleEngine.failures(validation, 'ERROR', 'CRITICAL');
+      
+      if (blocking.length > 0) {
+        // A rejected artifact must not count as an iteration, so its number can be generated again
+        await this.outputWriter.remove(result.outputPath);
+        this.updateAgentProgress(assignment.agentId, {
+          status: 'FAILED',
+          progressNotes: blocking.map(ValidationRuleEngine.describe)
+        });
+        
+        return {
+          agentId: assignment.agentId,
+          iterationNumber: assignment.iterationNumber,
+          success: false,
+          errorMessage: `Validation failed: ${blocking.map(ValidationRuleEngine.describe).join('; ')}`,
+          uniqueness: result.uniqueness,
+          validation,
+          validationNotes,
+          completionTime: Date.now() - startTime,
+          attempts,
+          tokenUsage
+        };
+      }
       
-      // Validate and finalize result
-      const finalResult = await this.validateAndFinalizeResult(result, assignment, wave);
+      // Quality is only measured, never estimated: functional test pass rate and critic verdict, averaged when both exist
+      const critique = await this.critiqueIteration(assignment, wave, result, options);
+      if (critique) {
+        tokenUsage = this.addTokenUsage(tokenUsage, critique.tokenUsage);
+        this.updateAgentProgress(assignment.agentId, { contextUsage: tokenUsage.totalTokens });
+      }
+      const measuredScores = [ValidationRuleEngine.functionalScore(validation), critique?.critique.score]
+        .filter((score): score is number => score !== undefined);
+      if (measuredScores.length > 0) {
+        const qualityScore = Math.round(measuredScores.reduce((sum, score) => sum + score, 0) / measuredScores.length);
+        result = { ...result, qualityScore, critique: critique?.critique };
+      }
+      
+      // Record the iteration in the output directory manifest
+      await this.recordIteration(assignment, wave, result, validationNotes);
       
       // Mark as completed
       this.updateAgentProgress(assignment.agentId, {
@@ -127,10 +298,16 @@ export class AgentCoordinator {
         agentId: assignment.agentId,
         iterationNumber: assignment.iterationNumber,
         success: true,
-        outputPath: finalResult.outputPath,
-        qualityScore: finalResult.qualityScore,
-        uniquenessScore: finalResult.uniquenessScore,
-        completionTime: Date.now() - startTime
+        outputPath: result.outputPath,
+        qualityScore: result.qualityScore,
+        uniquenessScore: result.uniquenessScore,
+        uniqueness: result.uniqueness,
+        validation,
+        validationNotes,
+        critique: result.critique,
+        completionTime: Date.now() - startTime,
+        attempts,
+        tokenUsage
       };
       
     } catch (error) {
@@ -146,191 +323,158 @@ export class AgentCoordinator {
         iterationNumber: assignment.iterationNumber,
         success: false,
         errorMessage: `Agent execution failed: ${error}`,
-        completionTime: Date.now() - startTime
+        completionTime: Date.now() - startTime,
+        attempts
       };
     }
   }
   
   /**
-   * Generate sophisticated agent prompt based on assignment
+   * Render the agent prompt from the specification's template, or the built-in one for its domain
    */
-  private generateAgentPrompt(assignment: AgentAssignment, wave: GenerationWave): string {
-    const { uniqueDirective, taskContext, qualityStandards } = assignment;
-    const spec = wave.specification;
-    
-    return `# Agent Task Assignment - Iteration ${assignment.iterationNumber}
-
-You are Sub-Agent ${assignment.agentId} generating iteration ${assignment.iterationNumber} for "${spec.name}".
-
-## SPECIFICATION CONTEXT
-- **Domain**: ${spec.domain.category} - ${spec.domain.subcategory}
-- **Target Audience**: ${spec.domain.targetAudience}
-- **Complexity Level**: ${spec.domain.complexity}
-- **Output Format**: ${spec.outputRequirements.format}
-
-## YOUR UNIQUE ASSIGNMENT
-- **Innovation Focus**: ${uniqueDirective.innovationFocus}
-- **Creative Boundary**: ${uniqueDirective.creativeBoundary}
-- **Differentiation Strategy**: ${uniqueDirective.differentiationStrategy}
-- **Target Audience**: ${uniqueDirective.targetAudience}
-
-## TASK CONTEXT
-**Specification Summary**: ${taskContext.specificationSummary}
-
-**Domain Context**: ${taskContext.domainContext}
-
-**Goal Statement**: ${taskContext.goalStatement}
-
-**Existing Work Summary**:
-${taskContext.existingWork.length > 0 ? taskContext.existingWork.map(work => `- ${work}`).join('\n') : '- No previous iterations (you are creating the first)'}
-
-## QUALITY STANDARDS
-
-### Functional Requirements
-${qualityStandards.functionalRequirements.map(req => `- ${req}`).join('\n')}
-
-### Design Requirements  
-${qualityStandards.designRequirements.map(req => `- ${req}`).join('\n')}
-
-### Performance Requirements
-${qualityStandards.performanceRequirements.map(req => `- ${req}`).join('\n')}
-
-### Uniqueness Requirements
-${qualityStandards.uniquenessRequirements.map(req => `- ${req}`).join('\n')}
-
-### Domain-Specific Requirements
-${qualityStandards.domainSpecificRequirements.map(req => `- ${req}`).join('\n')}
-
-## SPECIFICATION DETAILS
-
-**Success Criteria**:
-${spec.successCriteria.map(criteria => `- ${criteria}`).join('\n')}
-
-**Innovation Dimensions Available**:
-${spec.innovationDimensions.map(dim => `- ${dim}`).join('\n')}
-
-**Constraints**:
-${spec.constraints.map(constraint => `- ${constraint}`).join('\n')}
-
-**Evolution Pattern**: ${spec.evolutionPattern}
-**Progression Strategy**: ${spec.progressionStrategy}
-
-## OUTPUT REQUIREMENTS
-
-**Format**: ${spec.outputRequirements.format}
-**Structure**: ${spec.outputRequirements.structure}
-**Naming Pattern**: ${spec.outputRequirements.namingPattern.replace('{number}', assignment.iterationNumber.toString())}
-
-**Quality Standards**:
-${spec.outputRequirements.qualityStandards.map(standard => `- ${standard}`).join('\n')}
-
-## EXECUTION INSTRUCTIONS
-
-1. **Analyze Requirements**: Understand the specification and your unique creative assignment
-2. **Review Existing Work**: Study existing iterations to ensure your output is genuinely unique
-3. **Design Solution**: Plan your approach focusing on your assigned innovation dimension
-4. **Implement**: Create the output following all quality standards and requirements  
-5. **Validate**: Ensure your output meets functional requirements and demonstrates clear innovation
-6. **Document**: Provide clear explanation of your innovation and design decisions
-
-## CRITICAL SUCCESS FACTORS
-
-- **Uniqueness**: Your iteration must be distinctly different from existing work
-- **Quality**: Must meet or exceed the sophistication level requirements
-- **Compliance**: Must follow all specification requirements and constraints
-- **Innovation**: Must genuinely explore and advance your assigned innovation dimension
-- **Functionality**: Must be complete, working, and meet all functional requirements
+  generateAgentPrompt(assignment: AgentAssignment, wave: GenerationWave): string {
+    const { template, partials } = PromptTemplates.resolve(wave.specification);
+    return PromptTemplateEngine.render(template, PromptTemplateEngine.buildVariables(assignment, wave), partials);
+  }
+  
+  /**
+   * Append the failed rules of a rejected attempt so the next attempt can fix them
+   */
+  private appendValidationFeedback(prompt: string, failures: RuleEvaluation[]): string {
+    return `${prompt}
 
-## DELIVERABLE
+## VALIDATION FEEDBACK
 
-Create a single ${spec.outputRequirements.format} file named according to the naming pattern, with complete implementation that demonstrates clear innovation in ${uniqueDirective.innovationFocus} while meeting all quality and functional requirements.
+Your previous attempt at this iteration was rejected. Fix every problem below and deliver the complete output again:
 
-Begin execution immediately and focus on delivering exceptional results that advance the overall project goals.`;
+${ValidationRuleEngine.feedback(failures)}`;
+  }
+  
+  private addTokenUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+    return {
+      promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+      completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens,
+      totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens
+    };
   }
   
   /**
-   * Execute agent with actual implementation (placeholder for integration)
+   * Execute agent through the configured executor backend
    */
   private async executeAgent(
     prompt: string, 
     assignment: AgentAssignment, 
-    wave: GenerationWave
-  ): Promise<{
-    outputPath: string;
-    qualityScore: number;
-    uniquenessScore: number;
-  }> {
-    // This is where we would integrate with the actual agent execution system
-    // For now, simulate execution with realistic timing
-    
-    const executionTime = 2000 + Math.random() * 3000; // 2-5 seconds simulation
-    await new Promise(resolve => setTimeout(resolve, executionTime));
-    
-    // Generate realistic output path
-    const outputPath = `${wave.outputDirectory}/${wave.specification.outputRequirements.namingPattern.replace('{number}', assignment.iterationNumber.toString())}`;
+    wave: GenerationWave,
+    options: AgentRunOptions,
+    comparisonSet: ComparedIteration[],
+    signal?: AbortSignal
+  ): Promise<ExecutedIteration> {
+    const execution = await this.executor.execute({
+      prompt,
+      assignment,
+      wave,
+      outputPath: OutputWriter.resolveOutputPath(assignment, wave),
+      timeoutMs: options.failureHandling?.timeoutMs,
+      signal
+    });
     
-    // Simulate quality scoring based on sophistication level
-    const baseQuality = 70;
-    const sophisticationBonus = wave.sophisticationLevel.level * 5;
-    const randomVariation = Math.random() * 20;
-    const qualityScore = Math.min(100, baseQuality + sophisticationBonus + randomVariation);
+    // A timed-out attempt must not write after its replacement has started
+    signal?.throwIfAborted();
+    const outputPath = await this.outputWriter.write(execution.outputPath, execution.content, {
+      overwrite: options.overwriteExisting
+    });
     
-    // Simulate uniqueness scoring
-    const baseUniqueness = 75;
-    const iterationPenalty = Math.max(0, (assignment.iterationNumber - 1) * 2); // Later iterations harder to be unique
-    const uniquenessScore = Math.max(50, baseUniqueness - iterationPenalty + (Math.random() * 20));
+    // Join the comparison set once written and compare against everything that joined before, so of two similar
+    // siblings the later written one is flagged; entries for a retried iteration move to the end
+    const previous = comparisonSet.findIndex(iteration => iteration.number === assignment.iterationNumber);
+    if (previous >= 0) {
+      comparisonSet.splice(previous, 1);
+    }
+    const earlier = comparisonSet.slice();
+    comparisonSet.push({ number: assignment.iterationNumber, filePath: outputPath });
+    const uniqueness = await this.uniquenessScorer.score(
+      execution.content,
+      assignment.iterationNumber,
+      earlier,
+      wave.specification
+    );
     
     return {
       outputPath,
-      qualityScore: Math.round(qualityScore),
-      uniquenessScore: Math.round(uniquenessScore)
+      content: execution.content,
+      tokenUsage: execution.tokenUsage,
+      qualityScore: null, // Set once functional tests or a critic measure it
+      uniquenessScore: uniqueness.score,
+      uniqueness
     };
   }
   
   /**
-   * Validate and finalize agent result
+   * Score an accepted iteration with the critic executor, if one is configured
+   *
+   * A critic failure leaves the iteration in place, scored by its functional tests or unscored.
    */
-  private async validateAndFinalizeResult(
-    result: any,
+  private async critiqueIteration(
     assignment: AgentAssignment,
-    wave: GenerationWave
-  ): Promise<any> {
-    // Validate against specification requirements
-    const validationResults = this.validateAgainstSpecification(result, wave.specification);
-    
-    // Apply any necessary post-processing
-    if (validationResults.needsAdjustment) {
-      // Apply adjustments
-      result.qualityScore *= 0.95; // Slight penalty for needing adjustments
+    wave: GenerationWave,
+    result: ExecutedIteration,
+    options: AgentRunOptions
+  ): Promise<CritiqueOutcome | undefined> {
+    if (!this.critic || options.signal?.aborted) {
+      return undefined;
     }
     
-    return result;
+    this.updateAgentProgress(assignment.agentId, {
+      progressNotes: ['Critiquing artifact against the quality rubric']
+    });
+    try {
+      return await this.critic.critique({
+        content: result.content,
+        outputPath: result.outputPath,
+        assignment,
+        wave,
+        timeoutMs: options.failureHandling?.timeoutMs
+      });
+    } catch (error) {
+      console.error(`Critic failed for agent ${assignment.agentId}:`, error);
+      this.updateAgentProgress(assignment.agentId, {
+        progressNotes: [`Critic failed, quality is scored by functional tests only: ${error instanceof Error ? error.message : error}`]
+      });
+      return undefined;
+    }
   }
   
   /**
-   * Validate result against specification
+   * Record a completed iteration in the output directory manifest
    */
-  private validateAgainstSpecification(result: any, spec: UniversalSpecification): {
-    valid: boolean;
-    needsAdjustment: boolean;
-    issues: string[];
-  } {
-    const issues: string[] = [];
-    
-    // Basic validation logic
-    if (result.qualityScore < 70) {
-      issues.push('Quality score below acceptable threshold');
-    }
-    
-    if (result.uniquenessScore < 60) {
-      issues.push('Uniqueness score below acceptable threshold');
-    }
-    
-    return {
-      valid: issues.length === 0,
-      needsAdjustment: issues.length > 0 && issues.length < 3,
-      issues
-    };
+  private async recordIteration(
+    assignment: AgentAssignment,
+    wave: GenerationWave,
+    result: ExecutedIteration,
+    validationNotes: string[]
+  ): Promise<void> {
+    await IterationManifestStore.record(wave.outputDirectory, wave.specification, {
+      iteration: {
+        number: assignment.iterationNumber,
+        filePath: result.outputPath,
+        summary: IterationDiscovery.summarize(result.content, assignment.uniqueDirective.innovationFocus),
+        innovationDimensions: [assignment.uniqueDirective.innovationFocus],
+        qualityScore: result.qualityScore,
+        uniquenessScore: result.uniquenessScore,
+        nearestNeighbor: result.uniqueness?.nearestNeighbor
+      },
+      waveId: wave.id,
+      waveNumber: wave.waveNumber,
+      agentId: assignment.agentId,
+      sophisticationLevel: {
+        level: wave.sophisticationLevel.level,
+        name: wave.sophisticationLevel.name
+      },
+      uniqueDirective: assignment.uniqueDirective,
+      contentHash: createHash('sha256').update(result.content).digest('hex'),
+      ...(validationNotes.length > 0 ? { validationNotes } : {}),
+      ...(result.critique ? { critique: result.critique } : {})
+    });
   }
   
   /**
@@ -339,14 +483,30 @@ Begin execution immediately and focus on delivering exceptional results that adv
   private updateAgentProgress(agentId: string, updates: Partial<AgentProgress>): void {
     const current = this.activeAgents.get(agentId);
     if (current) {
-      this.activeAgents.set(agentId, {
+      const next = {
         ...current,
         ...updates,
         lastUpdate: Date.now()
-      });
+      };
+      this.activeAgents.set(agentId, next);
+      
+      // Notify listeners of phase transitions only
+      if (updates.status && updates.status !== current.status) {
+        this.progressListeners.forEach(listener => listener(next));
+      }
     }
   }
   
+  /**
+   * Subscribe to agent phase transitions; returns an unsubscribe function
+   */
+  addProgressListener(listener: AgentProgressListener): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+  
   /**
    * Get current status of all agents
    */
@@ -354,6 +514,13 @@ Begin execution immediately and focus on delivering exceptional results that adv
     return new Map(this.activeAgents);
   }
   
+  /**
+   * Get progress of the active agents of a wave
+   */
+  getWaveAgentStatuses(waveId: string): AgentProgress[] {
+    return Array.from(this.activeAgents.values()).filter(agent => agent.waveId === waveId);
+  }
+  
   /**
    * Get completed agent results
    */
@@ -378,11 +545,15 @@ Begin execution immediately and focus on delivering exceptional results that adv
     failedAgents: number;
     averageProgress: number;
     averageCompletionTime: number;
+    queueDepth: number;
+    runningAgents: number;
+    globalConcurrencyLimit: number | null;
   } {
     const completed = Array.from(this.completedAgents.values());
     const active = Array.from(this.activeAgents.values());
     
     const failedCount = completed.filter(r => !r.success).length;
+    const queueDepth = active.filter(a => a.status === 'ASSIGNED').length; // Waiting for a pool slot
     const avgProgress = active.length > 0 
       ? active.reduce((sum, a) => sum + a.progress, 0) / active.length 
       : 100;
@@ -396,7 +567,10 @@ Begin execution immediately and focus on delivering exceptional results that adv
       completedAgents: completed.filter(r => r.success).length,
       failedAgents: failedCount,
       averageProgress: Math.round(avgProgress),
-      averageCompletionTime: Math.round(avgCompletionTime)
+      averageCompletionTime: Math.round(avgCompletionTime),
+      queueDepth,
+      runningAgents: active.filter(a => ['STARTING', 'IN_PROGRESS', 'COMPLETING'].includes(a.status)).length,
+      globalConcurrencyLimit: this.globalPool?.getStats().concurrency ?? null
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,100 @@
+// Agent Retry Policy Tests - Timeouts, Backoff and Cancellation
+
+import { jest } from '@jest/globals';
+import { NonRetryableError, RetryAttemptInfo, RetryPolicy } from './retryPolicy.js';
+
+describe('RetryPolicy', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  // Zero backoff keeps retries immediate
+  function withoutBackoff(): void {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  }
+  
+  it('retries transient failures until an attempt succeeds', async () => {
+    withoutBackoff();
+    const retries: RetryAttemptInfo[] = [];
+    let attempts = 0;
+    
+    const result = await new RetryPolicy({ maxRetries: 3 }).run(async (_, attempt) => {
+      attempts++;
+      if (attempt < 3) throw new Error(`attempt ${attempt} failed`);
+      return 'done';
+    }, info => retries.push(info));
+    
+    expect(result).toBe('done');
+    expect(attempts).toBe(3);
+    expect(retries.map(({ attempt, maxAttempts, delayMs }) => [attempt, maxAttempts, delayMs])).toEqual([[1, 4, 0], [2, 4, 0]]);
+  });
+  
+  it('rethrows the last error once maxRetries is exhausted', async () => {
+    withoutBackoff();
+    let attempts = 0;
+    
+    await expect(new RetryPolicy({ maxRetries: 2 }).run(async () => {
+      attempts++;
+      throw new Error(`failure ${attempts}`);
+    })).rejects.toThrow('failure 3');
+    expect(attempts).toBe(3);
+  });
+  
+  it('does not retry non-retryable errors', async () => {
+    let attempts = 0;
+    
+    await expect(new RetryPolicy({ maxRetries: 5 }).run(async () => {
+      attempts++;
+      throw new NonRetryableError('Refusing to overwrite existing iteration');
+    })).rejects.toBeInstanceOf(NonRetryableError);
+    expect(attempts).toBe(1);
+    expect(RetryPolicy.isTransient(new Error('timeout'))).toBe(true);
+  });
+  
+  it('times out each attempt and aborts its signal', async () => {
+    withoutBackoff();
+    const signals: AbortSignal[] = [];
+    
+    await expect(new RetryPolicy({ maxRetries: 1, timeoutMs: 50 }).run(signal => {
+      signals.push(signal);
+      return new Promise<never>(() => undefined); // Ignores its signal
+    })).rejects.toThrow('Agent timed out after 50ms');
+    expect(signals).toHaveLength(2);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+  });
+  
+  it('starts no further attempt once cancelled', async () => {
+    withoutBackoff();
+    const cancel = new AbortController();
+    let attempts = 0;
+    
+    await expect(new RetryPolicy({ maxRetries: 5 }).run(async () => {
+      attempts++;
+      cancel.abort();
+      throw new Error('interrupted');
+    }, undefined, cancel.signal)).rejects.toThrow('interrupted');
+    expect(attempts).toBe(1);
+  });
+  
+  it('stops waiting for the backoff when cancelled', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const cancel = new AbortController();
+    let attempts = 0;
+    const started = Date.now();
+    
+    const run = new RetryPolicy({ maxRetries: 5 }).run(async () => {
+      attempts++;
+      throw new Error('unavailable');
+    }, () => setTimeout(() => cancel.abort(), 10), cancel.signal);
+    
+    await expect(run).rejects.toThrow('unavailable');
+    expect(attempts).toBe(1);
+    expect(Date.now() - started).toBeLessThan(400); // The first backoff is 500ms
+  });
+  
+  it('backs off exponentially up to a ceiling', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    
+    expect([1, 2, 3, 10].map(attempt => RetryPolicy.backoffDelay(attempt))).toEqual([500, 1000, 2000, 30000]);
+  });
+});
@@ -0,0 +1,118 @@
+// Agent Retry Policy - Timeouts and Exponential Backoff from failureHandling
+
+import { OrchestrationConfig } from '../types/index.js';
+
+export type FailureHandling = OrchestrationConfig['failureHandling'];
+
+export interface RetryAttemptInfo {
+  attempt: number; // 1-based attempt that failed
+  maxAttempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+
+/**
+ * A failure that would repeat on every attempt, such as a refused overwrite or a rejected request
+ */
+export class NonRetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonRetryableError';
+  }
+}
+
+export class RetryPolicy {
+  private maxRetries: number;
+  private timeoutMs?: number;
+  
+  constructor(failureHandling?: Partial<FailureHandling>) {
+    this.maxRetries = Math.max(0, failureHandling?.maxRetries ?? 0);
+    this.timeoutMs = failureHandling?.timeoutMs;
+  }
+  
+  /**
+   * Run an operation with a per-attempt timeout, retrying transient failures with backoff
+   *
+   * Each attempt receives an AbortSignal that fires when its timeout elapses. Once the
+   * cancel signal fires, the running attempt may finish but no further attempt starts.
+   */
+  async run<T>(
+    operation: (signal: AbortSignal, attempt: number) => Promise<T>,
+    onRetry?: (info: RetryAttemptInfo) => void,
+    cancelSignal?: AbortSignal
+  ): Promise<T> {
+    const maxAttempts = this.maxRetries + 1;
+    
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.runAttempt(operation, attempt);
+      } catch (error) {
+        if (attempt >= maxAttempts || !RetryPolicy.isTransient(error) || cancelSignal?.aborted) {
+          throw error;
+        }
+        
+        const delayMs = RetryPolicy.backoffDelay(attempt);
+        onRetry?.({ attempt, maxAttempts, delayMs, error });
+        await RetryPolicy.wait(delayMs, cancelSignal);
+        if (cancelSignal?.aborted) {
+          throw error;
+        }
+      }
+    }
+  }
+  
+  /**
+   * Timeouts, network errors and failed commands may succeed on another attempt
+   */
+  static isTransient(error: unknown): boolean {
+    return !(error instanceof NonRetryableError);
+  }
+  
+  /**
+   * Exponential backoff with full jitter
+   */
+  static backoffDelay(attempt: number): number {
+    const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+  
+  // Resolves early when the cancel signal fires
+  private static wait(delayMs: number, cancelSignal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        cancelSignal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, delayMs);
+      cancelSignal?.addEventListener('abort', done, { once: true });
+    });
+  }
+  
+  private async runAttempt<T>(
+    operation: (signal: AbortSignal, attempt: number) => Promise<T>,
+    attempt: number
+  ): Promise<T> {
+    const controller = new AbortController();
+    
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      if (this.timeoutMs === undefined) return;
+      timer = setTimeout(() => {
+        const error = new Error(`Agent timed out after ${this.timeoutMs}ms`);
+        controller.abort(error);
+        reject(error);
+      }, this.timeoutMs);
+    });
+    
+    try {
+      // Racing the timeout covers executors that ignore the abort signal
+      return await Promise.race([operation(controller.signal, attempt), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+// Worker Pool Tests - Sliding Window and Shared Parent Cap
+
+import { WorkerPool } from './workerPool.js';
+
+// A task that runs until released, recording the peak number of concurrent tasks
+class Tracker {
+  active = 0;
+  peak = 0;
+  started: number[] = [];
+  private releases = new Map<number, () => void>();
+  
+  task(id: number): () => Promise<number> {
+    return () => new Promise(resolve => {
+      this.active++;
+      this.peak = Math.max(this.peak, this.active);
+      this.started.push(id);
+      this.releases.set(id, () => {
+        this.active--;
+        resolve(id);
+      });
+    });
+  }
+  
+  release(id: number): void {
+    this.releases.get(id)!();
+  }
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('WorkerPool', () => {
+  it('starts a queued task as soon as any running task finishes', async () => {
+    const pool = new WorkerPool(2);
+    const tracker = new Tracker();
+    const runs = [1, 2, 3, 4].map(id => pool.run(tracker.task(id)));
+    await tick();
+    
+    expect(tracker.started).toEqual([1, 2]);
+    expect(pool.getStats()).toEqual({ concurrency: 2, running: 2, queued: 2 });
+    
+    tracker.release(2); // Out of order: the window slides without waiting for task 1
+    await tick();
+    expect(tracker.started).toEqual([1, 2, 3]);
+    
+    [1, 3].forEach(id => tracker.release(id));
+    await tick();
+    tracker.release(4);
+    
+    expect(await Promise.all(runs)).toEqual([1, 2, 3, 4]);
+    expect(tracker.peak).toBe(2);
+    expect(pool.getStats()).toEqual({ concurrency: 2, running: 0, queued: 0 });
+  });
+  
+  it('frees the slot of a task that throws', async () => {
+    const pool = new WorkerPool(1);
+    
+    await expect(pool.run(async () => { throw new Error('failed'); })).rejects.toThrow('failed');
+    await expect(pool.run(async () => 'next')).resolves.toBe('next');
+  });
+  
+  it('caps tasks across child pools with a shared parent', async () => {
+    const parent = new WorkerPool(3);
+    const tracker = new Tracker();
+    const children = [new WorkerPool(2, parent), new WorkerPool(2, parent)];
+    const runs = [1, 2, 3, 4].map(id => children[id % 2].run(tracker.task(id)));
+    await tick();
+    
+    expect(tracker.started).toHaveLength(3);
+    expect(parent.getStats()).toMatchObject({ running: 3, queued: 1 });
+    
+    tracker.release(tracker.started[0]);
+    await tick();
+    tracker.started.slice(1).forEach(id => tracker.release(id));
+    
+    expect((await Promise.all(runs)).sort()).toEqual([1, 2, 3, 4]);
+    expect(tracker.peak).toBe(3);
+  });
+  
+  it('rejects queued tasks without running them when the signal aborts', async () => {
+    const pool = new WorkerPool(1);
+    const tracker = new Tracker();
+    const controller = new AbortController();
+    const first = pool.run(tracker.task(1), controller.signal);
+    const queued = pool.run(tracker.task(2), controller.signal);
+    await tick();
+    
+    controller.abort(new Error('cancelled'));
+    await expect(queued).rejects.toThrow('cancelled');
+    await expect(pool.run(tracker.task(3), controller.signal)).rejects.toThrow('cancelled');
+    
+    tracker.release(1);
+    expect(await first).toBe(1); // A running task finishes
+    expect(tracker.started).toEqual([1]);
+    expect(pool.getStats()).toMatchObject({ running: 0, queued: 0 });
+  });
+  
+  it('requires a positive integer concurrency', () => {
+    expect(() => new WorkerPool(0)).toThrow('must be a positive integer');
+    expect(() => new WorkerPool(1.5)).toThrow('must be a positive integer');
+  });
+});
@@ -0,0 +1,79 @@
+// Worker Pool - Sliding-Window Concurrency Limiting for Agent Execution
+
+export interface WorkerPoolStats {
+  concurrency: number;
+  running: number;
+  queued: number;
+}
+
+export class WorkerPool {
+  private readonly concurrency: number;
+  private readonly parent?: WorkerPool;
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  /**
+   * Create a pool admitting at most `concurrency` tasks; a parent pool adds a second, shared cap
+   */
+  constructor(concurrency: number, parent?: WorkerPool) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Worker pool concurrency must be a positive integer, got ${concurrency}`);
+    }
+    this.concurrency = concurrency;
+    this.parent = parent;
+  }
+
+  /**
+   * Run a task as soon as a slot frees up; rejects without running if the signal aborts while queued
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return this.parent ? await this.parent.run(task, signal) : await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Get current slot usage and queue depth
+   */
+  getStats(): WorkerPoolStats {
+    return {
+      concurrency: this.concurrency,
+      running: this.running,
+      queued: this.waiting.length
+    };
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (this.running < this.concurrency) {
+      this.running++;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(waiter => waiter !== admit);
+        reject(signal!.reason);
+      };
+      // The releasing task hands its slot over directly, so running stays constant
+      const admit = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiting.push(admit);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.running--;
+    }
+  }
+}
@@ -0,0 +1,89 @@
+// Agent Executor Registry - Backend Selection from Configuration
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { AgentExecutor, ExecutorConfig, ExecutorType } from '../types/index.js';
+import { MockExecutor } from './mockExecutor.js';
+import { SamplingExecutor } from './samplingExecutor.js';
+import { OpenAIExecutor } from './openAIExecutor.js';
+import { SubprocessExecutor } from './subprocessExecutor.js';
+
+export { MockExecutor } from './mockExecutor.js';
+export { SamplingExecutor } from './samplingExecutor.js';
+export { OpenAIExecutor } from './openAIExecutor.js';
+export { OpenAIStubServer } from './openAIStubServer.js';
+export { SubprocessExecutor } from './subprocessExecutor.js';
+
+export interface ExecutorDependencies {
+  server?: Server; // MCP server connection, required by the sampling executor
+}
+
+const EXECUTOR_TYPES: ExecutorType[] = ['MOCK', 'SAMPLING', 'OPENAI', 'SUBPROCESS'];
+
+export class ExecutorFactory {
+  /**
+   * Create the agent executor described by the configuration
+   */
+  static create(config: ExecutorConfig, dependencies: ExecutorDependencies = {}): AgentExecutor {
+    switch (config.type) {
+      case 'MOCK':
+        return new MockExecutor(config.mock);
+      case 'SAMPLING':
+        if (!dependencies.server) {
+          throw new Error('SAMPLING executor requires the MCP server instance');
+        }
+        return new SamplingExecutor(dependencies.server, config.sampling);
+      case 'OPENAI':
+        if (!config.openai) {
+          throw new Error('OPENAI executor requires "openai" options with baseUrl and model');
+        }
+        return new OpenAIExecutor(config.openai);
+      case 'SUBPROCESS':
+        if (!config.subprocess) {
+          throw new Error('SUBPROCESS executor requires "subprocess" options with a command');
+        }
+        return new SubprocessExecutor(config.subprocess);
+      default:
+        throw new Error(`Unsupported executor type: ${config.type}`);
+    }
+  }
+  
+  /**
+   * Read executor configuration from environment variables
+   *
+   * INFINITE_LOOP_EXECUTOR selects the backend (defaults to MOCK) and
+   * INFINITE_LOOP_EXECUTOR_CONFIG may hold a JSON object with backend options.
+   */
+  static configFromEnvironment(env: NodeJS.ProcessEnv = process.env): ExecutorConfig {
+    return this.parseConfig(env.INFINITE_LOOP_EXECUTOR || 'MOCK', env.INFINITE_LOOP_EXECUTOR_CONFIG, 'INFINITE_LOOP_EXECUTOR_CONFIG');
+  }
+  
+  /**
+   * Read the critic executor configuration, if INFINITE_LOOP_CRITIC enables one
+   *
+   * INFINITE_LOOP_CRITIC_CONFIG holds backend options in the same shape as INFINITE_LOOP_EXECUTOR_CONFIG.
+   */
+  static criticConfigFromEnvironment(env: NodeJS.ProcessEnv = process.env): ExecutorConfig | undefined {
+    if (!env.INFINITE_LOOP_CRITIC) {
+      return undefined;
+    }
+    return this.parseConfig(env.INFINITE_LOOP_CRITIC, env.INFINITE_LOOP_CRITIC_CONFIG, 'INFINITE_LOOP_CRITIC_CONFIG');
+  }
+  
+  private static parseConfig(typeName: string, json: string | undefined, variable: string): ExecutorConfig {
+    const type = typeName.toUpperCase() as ExecutorType;
+    if (!EXECUTOR_TYPES.includes(type)) {
+      throw new Error(`Unknown executor type "${type}". Expected one of: ${EXECUTOR_TYPES.join(', ')}`);
+    }
+    
+    let options: Partial<ExecutorConfig> = {};
+    if (json) {
+      try {
+        options = JSON.parse(json);
+      } catch (error) {
+        throw new Error(`Invalid ${variable}: ${error}`);
+      }
+    }
+    
+    return { ...options, type };
+  }
+}
@@ -0,0 +1,49 @@
+// Mock Agent Executor Tests - Deterministic Output
+
+import { join } from 'node:path';
+import { AgentExecutionRequest } from '../types/index.js';
+import { planTestWave } from '../testing/fixtures.js';
+import { MockExecutor } from './mockExecutor.js';
+
+function requestFor(index: number, prompt = 'Generate a search component'): AgentExecutionRequest {
+  const wave = planTestWave('/tmp/mock-executor-test');
+  const assignment = wave.agentAssignments[index];
+  return { prompt, assignment, wave, outputPath: join(wave.outputDirectory, `SearchComponent_${assignment.iterationNumber}.tsx`) };
+}
+
+describe('MockExecutor', () => {
+  it('returns the same output for the same request', async () => {
+    const executor = new MockExecutor();
+    const first = await executor.execute(requestFor(0));
+    const second = await new MockExecutor().execute(requestFor(0));
+    
+    expect(second).toEqual(first);
+    expect(first.model).toBe('mock');
+    expect(first.outputPath).toBe('/tmp/mock-executor-test/SearchComponent_1.tsx');
+    expect(first.content).toContain('export const iteration = 1;');
+  });
+  
+  it('varies the output with the prompt and the assignment', async () => {
+    const executor = new MockExecutor();
+    const base = await executor.execute(requestFor(0));
+    
+    expect((await executor.execute(requestFor(0, 'A different prompt'))).content).not.toBe(base.content);
+    expect((await executor.execute(requestFor(1))).content).not.toBe(base.content);
+  });
+  
+  it('reports token usage from the prompt and the content', async () => {
+    const { tokenUsage } = await new MockExecutor().execute(requestFor(0));
+    
+    expect(tokenUsage.promptTokens).toBeGreaterThan(0);
+    expect(tokenUsage.completionTokens).toBeGreaterThan(0);
+    expect(tokenUsage.totalTokens).toBe(tokenUsage.promptTokens + tokenUsage.completionTokens);
+  });
+  
+  it('rejects when the request is aborted during its latency', async () => {
+    const controller = new AbortController();
+    const execution = new MockExecutor({ latencyMs: 10000 }).execute({ ...requestFor(0), signal: controller.signal });
+    controller.abort(new Error('cancelled'));
+    
+    await expect(execution).rejects.toThrow('cancelled');
+  });
+});
@@ -0,0 +1,97 @@
+// Mock Agent Executor - Deterministic Offline Backend
+
+import { createHash } from 'node:crypto';
+import {
+  AgentExecutor,
+  AgentExecutionRequest,
+  AgentExecutionOutput
+} from '../types/index.js';
+import { approximateTokens } from './responseParsing.js';
+
+export interface MockExecutorOptions {
+  latencyMs?: number;
+}
+
+export class MockExecutor implements AgentExecutor {
+  readonly name = 'mock';
+  private latencyMs: number;
+  
+  constructor(options: MockExecutorOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 0;
+  }
+  
+  /**
+   * Produce a deterministic iteration body derived from the prompt and assignment
+   */
+  async execute(request: AgentExecutionRequest): Promise<AgentExecutionOutput> {
+    if (this.latencyMs > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, this.latencyMs);
+        request.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(request.signal!.reason);
+        }, { once: true });
+      });
+    }
+    
+    const content = this.renderContent(request);
+    const promptTokens = approximateTokens(request.prompt);
+    const completionTokens = approximateTokens(content);
+    
+    return {
+      content,
+      outputPath: request.outputPath,
+      tokenUsage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      },
+      model: this.name
+    };
+  }
+  
+  private renderContent(request: AgentExecutionRequest): string {
+    if (request.rubric) {
+      return this.renderVerdict(request);
+    }
+    
+    const { assignment, wave } = request;
+    const fingerprint = createHash('sha256').update(request.prompt).digest('hex').substring(0, 12);
+    const focus = assignment.uniqueDirective.innovationFocus;
+    const title = `${wave.specification.name} - Iteration ${assignment.iterationNumber}`;
+    const summary = `${wave.sophisticationLevel.name} level exploration of ${focus}`;
+    
+    switch (wave.specification.outputRequirements.format.toLowerCase()) {
+      case 'json':
+        return JSON.stringify({
+          title,
+          iteration: assignment.iterationNumber,
+          innovationFocus: focus,
+          summary,
+          fingerprint
+        }, null, 2) + '\n';
+      case 'md':
+      case 'markdown':
+        return `# ${title}\n\n${summary}.\n\n## Innovation Focus\n\n${focus}\n\n## Fingerprint\n\n\`${fingerprint}\`\n`;
+      case 'ts':
+      case 'tsx':
+      case 'js':
+      case 'jsx':
+        return `// ${title}\n// ${summary}\n\nexport const iteration = ${assignment.iterationNumber};\nexport const innovationFocus = ${JSON.stringify(focus)};\nexport const fingerprint = ${JSON.stringify(fingerprint)};\n`;
+      default:
+        return `${title}\n\n${summary}\nFingerprint: ${fingerprint}\n`;
+    }
+  }
+  
+  // Critic requests get a deterministic per-criterion verdict between 55 and 95
+  private renderVerdict(request: AgentExecutionRequest): string {
+    const criteria = request.rubric!.map(({ id, criterion }) => {
+      const digest = createHash('sha256').update(`${request.prompt}\n${id}`).digest();
+      return { id, score: 55 + (digest[0] % 41), rationale: `Mock assessment of "${criterion}"` };
+    });
+    return JSON.stringify({
+      criteria,
+      summary: `Mock critique of iteration ${request.assignment.iterationNumber} against ${criteria.length} criteria`
+    }, null, 2) + '\n';
+  }
+}
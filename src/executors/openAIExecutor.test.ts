@@ -0,0 +1,77 @@
+// OpenAI-Compatible Executor Tests - Chat Completions Against the Stub Server
+
+import { AgentExecutionRequest } from '../types/index.js';
+import { NonRetryableError } from '../agents/retryPolicy.js';
+import { planTestWave } from '../testing/fixtures.js';
+import { OpenAIExecutor } from './openAIExecutor.js';
+import { OpenAIStubServer } from './openAIStubServer.js';
+
+function request(prompt: string): AgentExecutionRequest {
+  const wave = planTestWave('/tmp/openai-executor-test');
+  return { prompt, assignment: wave.agentAssignments[0], wave, outputPath: '/tmp/openai-executor-test/SearchComponent_1.tsx', timeoutMs: 5000 };
+}
+
+describe('OpenAIExecutor', () => {
+  let stub: OpenAIStubServer;
+  let baseUrl: string;
+  
+  beforeEach(async () => {
+    stub = new OpenAIStubServer({ respond: prompt => `Echo: ${prompt}` });
+    baseUrl = await stub.start();
+  });
+  
+  afterEach(async () => {
+    await stub.close();
+  });
+  
+  it.each([false, true])('returns the completion and usage with stream=%s', async stream => {
+    const executor = new OpenAIExecutor({ baseUrl, model: 'stub-model', stream, systemPrompt: 'Be brief' });
+    const prompt = 'Generate a search component '.repeat(10).trim();
+    const output = await executor.execute(request(prompt));
+    
+    expect(output.content).toBe(`Echo: ${prompt}`);
+    expect(output.model).toBe('stub-model');
+    expect(output.outputPath).toBe('/tmp/openai-executor-test/SearchComponent_1.tsx');
+    expect(output.tokenUsage.promptTokens).toBeGreaterThan(0);
+    expect(output.tokenUsage.totalTokens).toBe(output.tokenUsage.promptTokens + output.tokenUsage.completionTokens);
+    
+    const [body] = stub.getRequests();
+    expect(body.model).toBe('stub-model');
+    expect(body.stream).toBe(stream);
+    expect(body.stream_options?.include_usage).toBe(stream ? true : undefined);
+    expect(body.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: prompt }
+    ]);
+  });
+  
+  it('accumulates streamed deltas longer than one chunk', async () => {
+    const executor = new OpenAIExecutor({ baseUrl, model: 'stub-model', stream: true });
+    const prompt = 'x'.repeat(300);
+    
+    expect((await executor.execute(request(prompt))).content).toBe(`Echo: ${prompt}`);
+  });
+  
+  it('strips a code fence around the completion', async () => {
+    await stub.close();
+    stub = new OpenAIStubServer({ respond: () => '```tsx\nexport const a = 1;\n```' });
+    baseUrl = await stub.start();
+    
+    const output = await new OpenAIExecutor({ baseUrl, model: 'stub-model' }).execute(request('fenced'));
+    expect(output.content.trim()).toBe('export const a = 1;');
+  });
+  
+  it('reports server errors as retryable failures', async () => {
+    await stub.close();
+    stub = new OpenAIStubServer({ respond: () => { throw new Error('backend unavailable'); } });
+    baseUrl = await stub.start();
+    
+    const execution = new OpenAIExecutor({ baseUrl, model: 'stub-model' }).execute(request('failing'));
+    await expect(execution).rejects.toThrow('HTTP 500');
+    await expect(execution).rejects.not.toBeInstanceOf(NonRetryableError);
+  });
+  
+  it('requires a base URL and a model', () => {
+    expect(() => new OpenAIExecutor({ baseUrl, model: '' })).toThrow('requires "baseUrl" and "model"');
+  });
+});
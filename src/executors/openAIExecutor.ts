@@ -0,0 +1,174 @@
+// OpenAI-Compatible Executor - Chat Completions over HTTP
+
+import { z } from 'zod';
+import {
+  AgentExecutor,
+  AgentExecutionRequest,
+  AgentExecutionOutput,
+  ExecutorConfig
+} from '../types/index.js';
+import { approximateTokens, stripCodeFence } from './responseParsing.js';
+import { NonRetryableError } from '../agents/retryPolicy.js';
+
+export type OpenAIExecutorOptions = NonNullable<ExecutorConfig['openai']>;
+
+const DEFAULT_SYSTEM_PROMPT = 'You are a generation sub-agent. Respond with the complete contents of the requested output file only, without commentary.';
+const DEFAULT_TIMEOUT_MS = 300000;
+
+const ChatCompletionUsageSchema = z.object({
+  prompt_tokens: z.number().int().nonnegative().optional(),
+  completion_tokens: z.number().int().nonnegative().optional(),
+  total_tokens: z.number().int().nonnegative().optional()
+});
+
+const ChatCompletionSchema = z.object({
+  model: z.string().optional(),
+  choices: z.array(z.object({
+    message: z.object({ content: z.string().nullable().optional() })
+  })),
+  usage: ChatCompletionUsageSchema.nullable().optional()
+});
+
+const ChatCompletionChunkSchema = z.object({
+  model: z.string().optional(),
+  choices: z.array(z.object({
+    delta: z.object({ content: z.string().nullable().optional() }).optional()
+  })).optional(),
+  usage: ChatCompletionUsageSchema.nullable().optional()
+});
+
+// Request body as sent by OpenAIExecutor; other OpenAI parameters are passed through
+export const ChatCompletionRequestSchema = z.object({
+  model: z.string().optional(),
+  messages: z.array(z.object({ role: z.string(), content: z.string() })),
+  stream: z.boolean().optional(),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).optional()
+}).passthrough();
+
+export type ChatCompletionRequest = z.infer<typeof ChatCompletionRequestSchema>;
+
+type ChatCompletionUsage = z.infer<typeof ChatCompletionUsageSchema>;
+
+export class OpenAIExecutor implements AgentExecutor {
+  readonly name = 'openai';
+  private options: OpenAIExecutorOptions;
+  
+  constructor(options: OpenAIExecutorOptions) {
+    if (!options?.baseUrl || !options?.model) {
+      throw new Error('OPENAI executor requires "baseUrl" and "model" options');
+    }
+    this.options = options;
+  }
+  
+  /**
+   * Post the agent prompt to the chat completions endpoint
+   */
+  async execute(request: AgentExecutionRequest): Promise<AgentExecutionOutput> {
+    const stream = this.options.stream ?? false;
+    const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model: this.options.model,
+        messages: [
+          { role: 'system', content: this.options.systemPrompt || DEFAULT_SYSTEM_PROMPT },
+          { role: 'user', content: request.prompt }
+        ],
+        max_tokens: this.options.maxTokens,
+        temperature: this.options.temperature,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {})
+      }),
+      signal: request.signal ?? AbortSignal.timeout(request.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+    });
+    
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const message = `Chat completion request failed with HTTP ${response.status}: ${detail.substring(0, 500)}`;
+      // Client errors repeat on retry, except request timeouts, conflicts and rate limits
+      throw response.status >= 400 && response.status < 500 && ![408, 409, 429].includes(response.status)
+        ? new NonRetryableError(message)
+        : new Error(message);
+    }
+    
+    const { text, usage, model } = stream
+      ? await this.readStream(response)
+      : await this.readJson(response);
+    
+    const promptTokens = usage?.prompt_tokens ?? approximateTokens(request.prompt);
+    const completionTokens = usage?.completion_tokens ?? approximateTokens(text);
+    
+    return {
+      content: stripCodeFence(text),
+      outputPath: request.outputPath,
+      tokenUsage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: usage?.total_tokens ?? promptTokens + completionTokens
+      },
+      model: model || this.options.model
+    };
+  }
+  
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = this.options.apiKey || (this.options.apiKeyEnv ? process.env[this.options.apiKeyEnv] : undefined);
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+  
+  private async readJson(response: Response): Promise<{ text: string; usage?: ChatCompletionUsage; model?: string }> {
+    const parsed = ChatCompletionSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error(`Malformed chat completion response: ${parsed.error.issues[0]?.message}`);
+    }
+    const text = parsed.data.choices[0]?.message.content;
+    if (typeof text !== 'string') {
+      throw new Error('Chat completion response did not contain message content');
+    }
+    return { text, usage: parsed.data.usage ?? undefined, model: parsed.data.model };
+  }
+  
+  /**
+   * Accumulate delta content from a server-sent events stream
+   */
+  private async readStream(response: Response): Promise<{ text: string; usage?: ChatCompletionUsage; model?: string }> {
+    if (!response.body) {
+      throw new Error('Chat completion stream has no response body');
+    }
+    
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage: ChatCompletionUsage | undefined;
+    let model: string | undefined;
+    
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        
+        const data = trimmed.substring(5).trim();
+        if (data === '[DONE]') {
+          return { text, usage, model };
+        }
+        
+        const event = ChatCompletionChunkSchema.safeParse(JSON.parse(data));
+        if (!event.success) {
+          throw new Error(`Malformed chat completion stream chunk: ${event.error.issues[0]?.message}`);
+        }
+        text += event.data.choices?.[0]?.delta?.content || '';
+        usage = event.data.usage || usage;
+        model = event.data.model || model;
+      }
+    }
+    
+    return { text, usage, model };
+  }
+}
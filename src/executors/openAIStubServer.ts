@@ -0,0 +1,124 @@
+// OpenAI-Compatible Stub Server - In-Process Backend for Offline Integration Testing
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createHash } from 'node:crypto';
+import { approximateTokens } from './responseParsing.js';
+import { ChatCompletionRequest, ChatCompletionRequestSchema } from './openAIExecutor.js';
+
+export interface OpenAIStubServerOptions {
+  port?: number; // Defaults to an ephemeral port
+  model?: string;
+  respond?: (prompt: string) => string; // Custom completion body
+}
+
+export class OpenAIStubServer {
+  private server?: Server;
+  private options: OpenAIStubServerOptions;
+  private requests: ChatCompletionRequest[] = [];
+  
+  constructor(options: OpenAIStubServerOptions = {}) {
+    this.options = options;
+  }
+  
+  /**
+   * Start listening on localhost and return the base URL for OpenAIExecutor
+   */
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => this.sendError(res, 500, String(error)));
+    });
+    
+    await new Promise<void>(resolve => this.server!.listen(this.options.port ?? 0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/v1`;
+  }
+  
+  /**
+   * Stop the server
+   */
+  async close(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) => this.server!.close(error => error ? reject(error) : resolve()));
+    this.server = undefined;
+  }
+  
+  /**
+   * Get the request bodies received so far
+   */
+  getRequests(): ChatCompletionRequest[] {
+    return [...this.requests];
+  }
+  
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+      this.sendError(res, 404, `No route for ${req.method} ${req.url}`);
+      return;
+    }
+    
+    let raw = '';
+    for await (const chunk of req) {
+      raw += chunk;
+    }
+    let parsed: ReturnType<typeof ChatCompletionRequestSchema.safeParse>;
+    try {
+      parsed = ChatCompletionRequestSchema.safeParse(JSON.parse(raw));
+    } catch (error) {
+      this.sendError(res, 400, `Request body is not valid JSON: ${error}`);
+      return;
+    }
+    if (!parsed.success) {
+      this.sendError(res, 400, `Invalid chat completion request: ${parsed.error.issues[0]?.message}`);
+      return;
+    }
+    const body = parsed.data;
+    this.requests.push(body);
+    
+    const prompt = body.messages.filter(m => m.role === 'user').map(m => m.content).join('\n');
+    const text = this.options.respond ? this.options.respond(prompt) : this.defaultCompletion(prompt);
+    const model = this.options.model || body.model || 'stub-model';
+    const usage = {
+      prompt_tokens: approximateTokens(prompt),
+      completion_tokens: approximateTokens(text),
+      total_tokens: approximateTokens(prompt) + approximateTokens(text)
+    };
+    
+    if (body.stream) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      // Split the completion into a few deltas to exercise stream accumulation
+      const pieces = text.match(/[\s\S]{1,64}/g) || [''];
+      for (const piece of pieces) {
+        res.write(`data: ${JSON.stringify({ model, choices: [{ index: 0, delta: { content: piece } }] })}\n\n`);
+      }
+      if (body.stream_options?.include_usage) {
+        res.write(`data: ${JSON.stringify({ model, choices: [], usage })}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+      return;
+    }
+    
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: `chatcmpl-${this.requests.length}`,
+      object: 'chat.completion',
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+      usage
+    }));
+  }
+  
+  private sendError(res: ServerResponse, status: number, message: string): void {
+    if (res.headersSent) {
+      // Failed mid-stream: the status is already sent, so end the response and let the client see it truncated
+      res.end();
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message } }));
+  }
+  
+  private defaultCompletion(prompt: string): string {
+    const fingerprint = createHash('sha256').update(prompt).digest('hex').substring(0, 12);
+    return `Stub completion ${fingerprint}\n`;
+  }
+}
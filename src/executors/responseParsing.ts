@@ -0,0 +1,18 @@
+// Executor Response Parsing - Shared Helpers for Model Output
+
+import { defaultTokenizer } from '../context/tokenizer.js';
+
+/**
+ * Strip a single fenced code block wrapping the whole response, if present
+ */
+export function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```[\w.+-]*\n([\s\S]*?)\n?```$/);
+  return match ? match[1] + '\n' : text;
+}
+
+/**
+ * Approximate token count when a backend does not report usage
+ */
+export function approximateTokens(text: string): number {
+  return defaultTokenizer.countTokens(text);
+}
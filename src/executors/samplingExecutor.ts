@@ -0,0 +1,108 @@
+// MCP Sampling Executor - Generation Through the Connected Client's Model
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
+import {
+  AgentExecutor,
+  AgentExecutionRequest,
+  AgentExecutionOutput,
+  ExecutorConfig,
+  SophisticationLevel
+} from '../types/index.js';
+import { approximateTokens, stripCodeFence } from './responseParsing.js';
+
+export type SamplingExecutorOptions = NonNullable<ExecutorConfig['sampling']>;
+
+// Usage is not part of the sampling result schema, but clients may add it
+const SamplingUsageSchema = z.object({
+  usage: z.object({
+    inputTokens: z.number().int().nonnegative().optional(),
+    outputTokens: z.number().int().nonnegative().optional()
+  }).optional()
+});
+
+const DEFAULT_SYSTEM_PROMPT = 'You are a generation sub-agent. Respond with the complete contents of the requested output file only, without commentary.';
+
+export class SamplingExecutor implements AgentExecutor {
+  readonly name = 'sampling';
+  private server: Server;
+  private options: SamplingExecutorOptions;
+  
+  constructor(server: Server, options: SamplingExecutorOptions = {}) {
+    this.server = server;
+    this.options = options;
+  }
+  
+  /**
+   * Ensure the connected client advertises the sampling capability
+   */
+  assertAvailable(): void {
+    const capabilities = this.server.getClientCapabilities();
+    if (!capabilities) {
+      throw new Error('Sampling executor requires an initialized MCP client connection');
+    }
+    if (!capabilities.sampling) {
+      throw new Error('Connected MCP client does not support sampling/createMessage. Configure a different INFINITE_LOOP_EXECUTOR or use a client with sampling enabled');
+    }
+  }
+  
+  /**
+   * Send the agent prompt to the client's model and use the reply as the iteration body
+   */
+  async execute(request: AgentExecutionRequest): Promise<AgentExecutionOutput> {
+    this.assertAvailable();
+    
+    const response = await this.server.createMessage({
+      messages: [{
+        role: 'user',
+        content: { type: 'text', text: request.prompt }
+      }],
+      systemPrompt: this.options.systemPrompt || DEFAULT_SYSTEM_PROMPT,
+      includeContext: 'none',
+      maxTokens: this.getMaxTokens(request.wave.sophisticationLevel),
+      temperature: this.options.temperature,
+      modelPreferences: this.options.modelHints
+        ? { hints: this.options.modelHints.map(name => ({ name })) }
+        : undefined,
+      metadata: {
+        agentId: request.assignment.agentId,
+        iterationNumber: request.assignment.iterationNumber
+      }
+    }, {
+      timeout: this.options.requestTimeoutMs ?? request.timeoutMs ?? 300000,
+      signal: request.signal
+    });
+    
+    if (response.content.type !== 'text') {
+      throw new Error(`Sampling returned unsupported content type "${response.content.type}" for agent ${request.assignment.agentId}`);
+    }
+    
+    const content = stripCodeFence(response.content.text);
+    
+    // Clients may report usage alongside the result; fall back to an estimate otherwise
+    const parsedUsage = SamplingUsageSchema.safeParse(response);
+    const usage = parsedUsage.success ? parsedUsage.data.usage : undefined;
+    const promptTokens = usage?.inputTokens ?? approximateTokens(request.prompt);
+    const completionTokens = usage?.outputTokens ?? approximateTokens(response.content.text);
+    
+    return {
+      content,
+      outputPath: request.outputPath,
+      tokenUsage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      },
+      model: response.model
+    };
+  }
+  
+  /**
+   * Map a sophistication level to the sampling token budget
+   */
+  getMaxTokens(level: SophisticationLevel): number {
+    const override = this.options.maxTokensByLevel?.[level.level];
+    if (override) return override;
+    return (this.options.baseMaxTokens ?? 2048) * Math.max(1, level.level);
+  }
+}
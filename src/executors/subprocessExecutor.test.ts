@@ -0,0 +1,92 @@
+// Subprocess Executor Tests - Environment Allowlist and Exit Reporting
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AgentExecutionRequest } from '../types/index.js';
+import { NonRetryableError } from '../agents/retryPolicy.js';
+import { planTestWave } from '../testing/fixtures.js';
+import { SubprocessExecutor } from './subprocessExecutor.js';
+
+function node(script: string, options: Partial<ConstructorParameters<typeof SubprocessExecutor>[0]> = {}): SubprocessExecutor {
+  return new SubprocessExecutor({ command: process.execPath, args: ['-e', script], ...options });
+}
+
+describe('SubprocessExecutor', () => {
+  let directory: string;
+  let request: AgentExecutionRequest;
+  
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'subprocess-executor-'));
+    const wave = planTestWave(directory);
+    const assignment = wave.agentAssignments[0];
+    request = { prompt: 'Generate a search component', assignment, wave, outputPath: join(directory, 'SearchComponent_1.tsx'), timeoutMs: 10000 };
+  });
+  
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+    delete process.env.SUBPROCESS_EXECUTOR_TEST_SECRET;
+  });
+  
+  it('pipes the prompt through stdin and returns stdout', async () => {
+    const output = await node('process.stdin.pipe(process.stdout)').execute(request);
+    
+    expect(output.content).toBe('Generate a search component');
+    expect(output.model).toBe(process.execPath);
+    expect(output.outputPath).toBe(request.outputPath);
+  });
+  
+  it('passes only allowlisted, fixed and iteration variables to the command', async () => {
+    process.env.SUBPROCESS_EXECUTOR_TEST_SECRET = 'secret';
+    const output = await node('process.stdout.write(JSON.stringify(process.env))', { env: { EXTRA: 'fixed' } }).execute(request);
+    const env = JSON.parse(output.content);
+    
+    expect(env.SUBPROCESS_EXECUTOR_TEST_SECRET).toBeUndefined();
+    expect(env.PATH).toBe(process.env.PATH);
+    expect(env).toMatchObject({
+      EXTRA: 'fixed',
+      INFINITE_LOOP_AGENT_ID: request.assignment.agentId,
+      INFINITE_LOOP_ITERATION: '1',
+      INFINITE_LOOP_OUTPUT_PATH: request.outputPath
+    });
+  });
+  
+  it('passes allowlisted parent variables when an allowlist is configured', async () => {
+    process.env.SUBPROCESS_EXECUTOR_TEST_SECRET = 'secret';
+    const output = await node('process.stdout.write(JSON.stringify(process.env))', {
+      envAllowlist: ['SUBPROCESS_EXECUTOR_TEST_SECRET']
+    }).execute(request);
+    const env = JSON.parse(output.content);
+    
+    expect(env.SUBPROCESS_EXECUTOR_TEST_SECRET).toBe('secret');
+    expect(env.PATH).toBeUndefined();
+  });
+  
+  it('reports the exit code with the tail of stderr', async () => {
+    await expect(node('console.error("generation failed"); process.exit(7)').execute(request))
+      .rejects.toThrow(`Command "${process.execPath}" exited with code 7; stderr: generation failed`);
+  });
+  
+  it('kills a command that exceeds its timeout', async () => {
+    await expect(node('setTimeout(() => undefined, 60000)').execute({ ...request, timeoutMs: 200 }))
+      .rejects.toThrow('killed after 200ms timeout');
+  });
+  
+  it('does not retry a command that cannot be started', async () => {
+    const execution = new SubprocessExecutor({ command: join(directory, 'missing-agent') }).execute(request);
+    
+    await expect(execution).rejects.toThrow('Failed to start');
+    await expect(execution).rejects.toBeInstanceOf(NonRetryableError);
+  });
+  
+  it('hands the prompt over as a file and reads the artifact the command writes', async () => {
+    const executor = new SubprocessExecutor({
+      command: process.execPath,
+      args: ['-e', 'const fs = require("fs"); fs.writeFileSync(process.argv[2], fs.readFileSync(process.argv[1], "utf8").toUpperCase())', '{promptFile}', '{outputPath}'],
+      input: 'FILE',
+      output: 'FILE'
+    });
+    
+    expect((await executor.execute(request)).content).toBe('GENERATE A SEARCH COMPONENT');
+  });
+});
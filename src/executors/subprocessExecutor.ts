@@ -0,0 +1,169 @@
+// Subprocess Executor - Generation Through Local CLI Agents
+
+import { spawn } from 'node:child_process';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import {
+  AgentExecutor,
+  AgentExecutionRequest,
+  AgentExecutionOutput,
+  ExecutorConfig
+} from '../types/index.js';
+import { approximateTokens } from './responseParsing.js';
+import { NonRetryableError } from '../agents/retryPolicy.js';
+
+export type SubprocessExecutorOptions = NonNullable<ExecutorConfig['subprocess']>;
+
+const DEFAULT_ENV_ALLOWLIST = ['PATH', 'HOME', 'LANG', 'TERM'];
+const DEFAULT_TIMEOUT_MS = 300000;
+const STDERR_TAIL_LENGTH = 2000;
+
+export class SubprocessExecutor implements AgentExecutor {
+  readonly name = 'subprocess';
+  private options: SubprocessExecutorOptions;
+  
+  constructor(options: SubprocessExecutorOptions) {
+    if (!options?.command) {
+      throw new Error('SUBPROCESS executor requires a "command" option');
+    }
+    this.options = options;
+  }
+  
+  /**
+   * Run the configured command for one assignment and collect the iteration body
+   */
+  async execute(request: AgentExecutionRequest): Promise<AgentExecutionOutput> {
+    const { assignment, wave } = request;
+    const input = this.options.input || 'STDIN';
+    const output = this.options.output || 'STDOUT';
+    
+    await mkdir(wave.outputDirectory, { recursive: true });
+    const tempDir = await mkdtemp(join(tmpdir(), 'infinite-loop-'));
+    const promptFile = join(tempDir, `prompt_${assignment.iterationNumber}.md`);
+    
+    try {
+      if (input === 'FILE') {
+        await writeFile(promptFile, request.prompt, 'utf8');
+      }
+      
+      const placeholders: Record<string, string> = {
+        promptFile,
+        outputPath: resolve(request.outputPath), // The command runs inside outputDirectory
+        number: assignment.iterationNumber.toString(),
+        agentId: assignment.agentId
+      };
+      const args = (this.options.args || []).map(arg =>
+        arg.replace(/\{(promptFile|outputPath|number|agentId)\}/g, (_, key) => placeholders[key])
+      );
+      
+      const stdout = await this.runCommand(
+        args,
+        wave.outputDirectory,
+        this.buildEnvironment(request, promptFile),
+        input === 'STDIN' ? request.prompt : undefined,
+        request.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        request.signal
+      );
+      
+      const content = output === 'FILE'
+        ? await readFile(request.outputPath, 'utf8').catch(error => {
+            throw new Error(`Command completed but did not produce ${request.outputPath}: ${error.message}`);
+          })
+        : stdout;
+      
+      const promptTokens = approximateTokens(request.prompt);
+      const completionTokens = approximateTokens(content);
+      
+      return {
+        content,
+        outputPath: request.outputPath,
+        tokenUsage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens
+        },
+        model: this.options.command
+      };
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }
+  
+  private buildEnvironment(request: AgentExecutionRequest, promptFile: string): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = {};
+    for (const key of this.options.envAllowlist || DEFAULT_ENV_ALLOWLIST) {
+      if (process.env[key] !== undefined) {
+        env[key] = process.env[key];
+      }
+    }
+    
+    return {
+      ...env,
+      ...this.options.env,
+      INFINITE_LOOP_AGENT_ID: request.assignment.agentId,
+      INFINITE_LOOP_ITERATION: request.assignment.iterationNumber.toString(),
+      INFINITE_LOOP_OUTPUT_PATH: resolve(request.outputPath),
+      INFINITE_LOOP_PROMPT_FILE: promptFile
+    };
+  }
+  
+  /**
+   * Spawn the command, feed stdin and kill it when the timeout elapses
+   */
+  private runCommand(
+    args: string[],
+    cwd: string,
+    env: NodeJS.ProcessEnv,
+    stdin: string | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    return new Promise((resolvePromise, reject) => {
+      const child = spawn(this.options.command, args, { cwd, env, stdio: ['pipe', 'pipe', 'pipe'] });
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, timeoutMs);
+      const onAbort = () => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      
+      child.stdout.setEncoding('utf8').on('data', chunk => { stdout += chunk; });
+      child.stderr.setEncoding('utf8').on('data', chunk => { stderr += chunk; });
+      
+      child.on('error', error => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        const message = `Failed to start "${this.options.command}": ${error.message}`;
+        // A missing or non-executable command fails the same way every time
+        const code = (error as NodeJS.ErrnoException).code;
+        reject(code === 'ENOENT' || code === 'EACCES' ? new NonRetryableError(message) : new Error(message));
+      });
+      
+      child.on('close', (code, exitSignal) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        const stderrTail = stderr.trim().slice(-STDERR_TAIL_LENGTH);
+        
+        if (timedOut) {
+          reject(new Error(`Command "${this.options.command}" killed after ${signal?.aborted ? 'abort' : `${timeoutMs}ms timeout`}${stderrTail ? `; stderr: ${stderrTail}` : ''}`));
+        } else if (code !== 0) {
+          reject(new Error(`Command "${this.options.command}" exited with ${code !== null ? `code ${code}` : `signal ${exitSignal}`}${stderrTail ? `; stderr: ${stderrTail}` : ''}`));
+        } else {
+          resolvePromise(stdout);
+        }
+      });
+      
+      // Commands that ignore stdin may close it early
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(stdin);
+    });
+  }
+}
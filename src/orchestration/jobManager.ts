@@ -0,0 +1,197 @@
+// Orchestration Job Manager - Background Execution of Infinite Loop Runs
+
+import {
+  ContextMonitor,
+  GenerationWave,
+  OrchestrationConfig,
+  OrchestrationResult,
+  UniversalSpecification,
+  WaveResult
+} from '../types/index.js';
+
+export type OrchestrationJobStatus = 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface OrchestrationRunContext {
+  jobId: string;
+  signal: AbortSignal;
+  shutdownSignal: AbortSignal; // Graceful stop: in-flight agents finish, queued agents and new waves are skipped
+  waves: GenerationWave[]; // Waves are appended as they are planned
+  attachContextMonitor: (contextMonitor: ContextMonitor) => void; // Exposes the run's token accounting
+  onWaveCompleted?: (wave: GenerationWave, results: WaveResult[]) => void;
+}
+
+export interface OrchestrationJob {
+  id: string;
+  status: OrchestrationJobStatus;
+  specification: UniversalSpecification;
+  outputDirectory: string;
+  config: OrchestrationConfig;
+  createdAt: Date;
+  finishedAt?: Date;
+  cancelRequested: boolean;
+  waves: GenerationWave[];
+  result?: OrchestrationResult;
+  errorMessage?: string;
+  abortController: AbortController;
+  shutdownController: AbortController;
+  contextMonitor?: ContextMonitor;
+  completion: Promise<void>; // Settles once the job has finished
+  listeners: Pick<OrchestrationRunContext, 'onWaveCompleted'>;
+}
+
+export interface OrchestrationJobSummary {
+  jobId: string;
+  status: OrchestrationJobStatus;
+  specificationName: string;
+  outputDirectory: string;
+  mode: OrchestrationConfig['mode'];
+  createdAt: string;
+  finishedAt?: string;
+  cancelRequested: boolean;
+  wavesPlanned: number;
+  iterationsCompleted: number;
+  iterationsFailed: number;
+}
+
+export class OrchestrationJobManager {
+  private jobs: Map<string, OrchestrationJob> = new Map();
+  
+  /**
+   * Start an orchestration run in the background and return immediately
+   *
+   * Resumed runs pass their original job id so the journal stays continuous.
+   */
+  start(
+    specification: UniversalSpecification,
+    outputDirectory: string,
+    config: OrchestrationConfig,
+    run: (context: OrchestrationRunContext) => Promise<OrchestrationResult>,
+    jobId: string = crypto.randomUUID()
+  ): OrchestrationJob {
+    const job: OrchestrationJob = {
+      id: jobId,
+      status: 'RUNNING',
+      specification,
+      outputDirectory,
+      config,
+      createdAt: new Date(),
+      cancelRequested: false,
+      waves: [],
+      abortController: new AbortController(),
+      shutdownController: new AbortController(),
+      completion: Promise.resolve(),
+      listeners: {}
+    };
+    this.jobs.set(job.id, job);
+    
+    job.completion = run({
+      jobId: job.id,
+      signal: job.abortController.signal,
+      shutdownSignal: job.shutdownController.signal,
+      waves: job.waves,
+      attachContextMonitor: contextMonitor => {
+        job.contextMonitor = contextMonitor;
+      },
+      onWaveCompleted: (wave, results) => job.listeners.onWaveCompleted?.(wave, results)
+    })
+      .then(result => {
+        job.result = result;
+        job.errorMessage = result.errorMessage;
+        job.status = result.stopReason === 'CANCELLED'
+          ? 'CANCELLED'
+          : result.success ? 'COMPLETED' : 'FAILED';
+      })
+      .catch(error => {
+        job.status = job.cancelRequested ? 'CANCELLED' : 'FAILED';
+        job.errorMessage = `Orchestration failed: ${error}`;
+      })
+      .finally(() => {
+        job.finishedAt = new Date();
+      });
+    
+    return job;
+  }
+  
+  /**
+   * Get a job by id
+   */
+  get(jobId: string): OrchestrationJob | undefined {
+    return this.jobs.get(jobId);
+  }
+  
+  /**
+   * List all known jobs, most recent first
+   */
+  list(status?: OrchestrationJobStatus): OrchestrationJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => !status || job.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  /**
+   * Request cancellation of a running job
+   *
+   * In-flight agents finish; no further agents or waves are started.
+   */
+  cancel(jobId: string): OrchestrationJob | undefined {
+    const job = this.jobs.get(jobId);
+    if (job && job.status === 'RUNNING' && !job.cancelRequested) {
+      job.cancelRequested = true;
+      job.abortController.abort();
+    }
+    return job;
+  }
+  
+  /**
+   * Request a graceful shutdown of a running job once its context budget is exhausted
+   *
+   * Unlike cancel, the run finishes with a CONTEXT_THRESHOLD stop reason.
+   */
+  shutdown(jobId: string): OrchestrationJob | undefined {
+    const job = this.jobs.get(jobId);
+    if (job && job.status === 'RUNNING') {
+      job.shutdownController.abort();
+    }
+    return job;
+  }
+  
+  /**
+   * Find the job that planned a wave
+   */
+  findWave(waveId: string): { job: OrchestrationJob; wave: GenerationWave } | undefined {
+    for (const job of this.jobs.values()) {
+      const wave = job.waves.find(candidate => candidate.id === waveId);
+      if (wave) {
+        return { job, wave };
+      }
+    }
+    return undefined;
+  }
+  
+  /**
+   * Get all wave results produced so far, including partial results of running waves
+   */
+  static collectResults(job: OrchestrationJob): WaveResult[] {
+    return job.waves.flatMap(wave => wave.results || []);
+  }
+  
+  /**
+   * Condensed job view for listings
+   */
+  static summarize(job: OrchestrationJob): OrchestrationJobSummary {
+    const results = this.collectResults(job);
+    return {
+      jobId: job.id,
+      status: job.status,
+      specificationName: job.specification.name,
+      outputDirectory: job.outputDirectory,
+      mode: job.config.mode,
+      createdAt: job.createdAt.toISOString(),
+      finishedAt: job.finishedAt?.toISOString(),
+      cancelRequested: job.cancelRequested,
+      wavesPlanned: job.waves.length,
+      iterationsCompleted: results.filter(result => result.success).length,
+      iterationsFailed: results.filter(result => !result.success).length
+    };
+  }
+}
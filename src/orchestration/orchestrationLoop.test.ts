@@ -0,0 +1,128 @@
+// Orchestration Loop Tests - Stop Reasons and Requeueing of Failed Iterations
+
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AgentExecutionOutput,
+  AgentExecutionRequest,
+  AgentExecutor,
+  OrchestrationConfig,
+  OrchestrationMode
+} from '../types/index.js';
+import { AgentCoordinator } from '../agents/coordinator.js';
+import { NonRetryableError } from '../agents/retryPolicy.js';
+import { MockExecutor } from '../executors/mockExecutor.js';
+import { loadExampleSpecification } from '../testing/fixtures.js';
+import { OrchestrationJobManager } from './jobManager.js';
+import { OrchestrationLoop } from './orchestrationLoop.js';
+import { WaveManager } from './waveManager.js';
+
+const specification = loadExampleSpecification();
+
+// Fails the first attempt at each listed iteration, then delegates to the mock executor
+class FlakyExecutor implements AgentExecutor {
+  readonly name = 'flaky';
+  private mock = new MockExecutor();
+  private failures: Set<number>;
+  private always: boolean;
+  
+  constructor(failOnce: number[] | 'ALWAYS') {
+    this.failures = new Set(failOnce === 'ALWAYS' ? [] : failOnce);
+    this.always = failOnce === 'ALWAYS';
+  }
+  
+  async execute(request: AgentExecutionRequest): Promise<AgentExecutionOutput> {
+    const number = request.assignment.iterationNumber;
+    if (this.always || this.failures.delete(number)) {
+      throw new NonRetryableError(`Iteration ${number} failed`);
+    }
+    return this.mock.execute(request);
+  }
+}
+
+function configFor(mode: OrchestrationMode, overrides: Partial<OrchestrationConfig> = {}): OrchestrationConfig {
+  return {
+    mode,
+    contextThreshold: 0.9,
+    gracefulShutdown: true,
+    progressiveSophistication: false,
+    overwriteExisting: false,
+    failureHandling: { maxRetries: 0, timeoutMs: 10000, gracefulDegradation: true },
+    ...overrides
+  };
+}
+
+function loopWith(executor: AgentExecutor = new MockExecutor()): OrchestrationLoop {
+  return new OrchestrationLoop(new WaveManager(new AgentCoordinator(executor)));
+}
+
+describe('OrchestrationLoop', () => {
+  let directory: string;
+  
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'orchestration-loop-'));
+  });
+  
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+  
+  async function artifacts(): Promise<string[]> {
+    return (await readdir(directory)).filter(name => name.endsWith('.tsx')).sort();
+  }
+  
+  it('stops with TARGET_REACHED once mode.count iterations exist', async () => {
+    const result = await loopWith().run(specification, directory, configFor({ type: 'BATCH', count: 4, batchSize: 2 }));
+    
+    expect(result).toMatchObject({ success: true, stopReason: 'TARGET_REACHED', totalIterations: 4, completedWaves: 2 });
+    expect(await artifacts()).toEqual(['SearchComponent_1.tsx', 'SearchComponent_2.tsx', 'SearchComponent_3.tsx', 'SearchComponent_4.tsx']);
+  });
+  
+  it('stops with MAX_WAVES when the wave limit comes first', async () => {
+    const result = await loopWith().run(specification, directory, configFor({ type: 'INFINITE', count: 'INFINITE', maxWaves: 2 }));
+    
+    expect(result).toMatchObject({ stopReason: 'MAX_WAVES', completedWaves: 2 });
+  });
+  
+  it('stops with NO_PROGRESS when a wave produces no iterations', async () => {
+    const result = await loopWith(new FlakyExecutor('ALWAYS')).run(specification, directory, configFor({ type: 'BATCH', count: 4, batchSize: 2 }));
+    
+    expect(result).toMatchObject({ success: true, stopReason: 'NO_PROGRESS', completedWaves: 1, totalIterations: 0 });
+    expect(result.results.map(({ success }) => success)).toEqual([false, false]);
+  });
+  
+  it('stops with CONTEXT_THRESHOLD once the token budget is used up', async () => {
+    const result = await loopWith().run(
+      specification,
+      directory,
+      configFor({ type: 'INFINITE', count: 'INFINITE' }, { totalCapacity: 100, contextThreshold: 0.5 })
+    );
+    
+    expect(result).toMatchObject({ stopReason: 'CONTEXT_THRESHOLD', completedWaves: 1 });
+  });
+  
+  it('stops with CANCELLED when the job is cancelled', async () => {
+    const jobs = new OrchestrationJobManager();
+    const loop = loopWith(new MockExecutor({ latencyMs: 50 }));
+    const config = configFor({ type: 'INFINITE', count: 'INFINITE' });
+    const job = jobs.start(specification, directory, config, context => loop.run(specification, directory, config, context));
+    
+    await new Promise(resolve => setTimeout(resolve, 120));
+    jobs.cancel(job.id);
+    await job.completion;
+    
+    expect(job.status).toBe('CANCELLED');
+    expect(job.result?.stopReason).toBe('CANCELLED');
+  });
+  
+  it('requeues failed iteration numbers into the next wave', async () => {
+    const result = await loopWith(new FlakyExecutor([2])).run(specification, directory, configFor({ type: 'BATCH', count: 3, batchSize: 3 }));
+    
+    expect(result).toMatchObject({ stopReason: 'TARGET_REACHED', totalIterations: 3, completedWaves: 2 });
+    expect(result.results.map(({ iterationNumber, success }) => [iterationNumber, success])).toEqual([
+      [1, true], [2, false], [3, true], [2, true]
+    ]);
+    expect(await artifacts()).toEqual(['SearchComponent_1.tsx', 'SearchComponent_2.tsx', 'SearchComponent_3.tsx']);
+  });
+});
@@ -0,0 +1,226 @@
+// Orchestration Loop - Multi-Wave Execution Until a Stop Condition
+
+import {
+  ContextMonitor,
+  GenerationWave,
+  OrchestrationConfig,
+  OrchestrationResult,
+  OrchestrationStopReason,
+  UniversalSpecification,
+  WaveResult
+} from '../types/index.js';
+import { IterationDiscovery } from '../output/iterationDiscovery.js';
+import { OrchestrationRunContext } from './jobManager.js';
+import { RecoveredRun, RunJournal } from './runJournal.js';
+import { SophisticationScheduler } from './sophisticationScheduler.js';
+import { WaveManager } from './waveManager.js';
+
+export class OrchestrationLoop {
+  private waveManager: WaveManager;
+  
+  constructor(waveManager: WaveManager) {
+    this.waveManager = waveManager;
+  }
+  
+  /**
+   * Plan and execute waves until a stop condition is met, journaling every step
+   *
+   * A recovered run replays its finished waves and completes its interrupted ones first.
+   */
+  async run(
+    specification: UniversalSpecification,
+    outputDirectory: string,
+    config: OrchestrationConfig,
+    context?: OrchestrationRunContext,
+    recovered?: RecoveredRun
+  ): Promise<OrchestrationResult> {
+    const startTime = Date.now();
+    let totalIterations = 0;
+    let completedWaves = 0;
+    let stopReason: OrchestrationStopReason | undefined;
+    const allResults: WaveResult[] = [];
+    let journal: RunJournal | undefined;
+    const contextMonitor = this.waveManager.createContextMonitor(config.totalCapacity);
+    context?.attachContextMonitor(contextMonitor);
+    
+    // Graceful shutdown lets in-flight agents finish but starts no new agents or waves
+    const shutdownController = new AbortController();
+    const shutdownSignal = context
+      ? AbortSignal.any([context.shutdownSignal, shutdownController.signal])
+      : shutdownController.signal;
+    const waveSignal = context ? AbortSignal.any([context.signal, shutdownSignal]) : shutdownSignal;
+    
+    try {
+      const scheduler = new SophisticationScheduler(specification, config);
+      let existingIterations = await IterationDiscovery.discover(outputDirectory, specification);
+      const pendingWaves: { wave: GenerationWave; completedResults: WaveResult[] }[] = [];
+      let requeuedIterations: number[] = [];
+      let lastWaveNumber = 0; // Each run numbers its waves from 1
+      
+      if (recovered) {
+        journal = recovered.journal;
+        await journal.append({ type: 'RUN_RESUMED', jobId: recovered.jobId });
+        requeuedIterations = recovered.requeuedIterations;
+        lastWaveNumber = Math.max(0, ...recovered.waves.map(({ wave }) => wave.waveNumber));
+        
+        // Replay finished waves so counters and the scheduler pick up where the run stopped
+        for (const { wave, completedResults, finished } of recovered.waves) {
+          if (finished) {
+            scheduler.recordWave(wave.sophisticationLevel, completedResults);
+            completedWaves++;
+            totalIterations += completedResults.length;
+            allResults.push(...completedResults);
+            completedResults.forEach(result => this.waveManager.recordAgentUsage(contextMonitor, wave.id, result));
+          } else {
+            pendingWaves.push({ wave, completedResults });
+          }
+        }
+      } else {
+        const jobId = context?.jobId || crypto.randomUUID();
+        journal = await RunJournal.open(outputDirectory, jobId);
+        await journal.append({ type: 'RUN_STARTED', jobId, specification, outputDirectory, config });
+      }
+      const runJournal = journal;
+      
+      while (!stopReason) {
+        if (context?.signal.aborted) {
+          stopReason = 'CANCELLED';
+        } else if (shutdownSignal.aborted) {
+          stopReason = 'CONTEXT_THRESHOLD';
+        } else if (pendingWaves.length === 0) {
+          // Interrupted waves always finish before stop conditions are evaluated
+          stopReason = this.checkStopCondition(config, existingIterations.length, completedWaves, contextMonitor);
+        }
+        if (stopReason) break;
+        
+        const pending = pendingWaves.shift();
+        let wave: GenerationWave;
+        if (pending) {
+          wave = pending.wave;
+          allResults.push(...pending.completedResults);
+          totalIterations += pending.completedResults.length;
+          pending.completedResults.forEach(result => this.waveManager.recordAgentUsage(contextMonitor, wave.id, result));
+        } else {
+          const schedule = scheduler.nextWave();
+          wave = this.waveManager.planWave(
+            specification,
+            config.mode,
+            existingIterations,
+            schedule.sophisticationLevel,
+            outputDirectory,
+            ++lastWaveNumber,
+            schedule.sizeFactor,
+            requeuedIterations
+          ).waveConfiguration;
+          
+          await runJournal.append({
+            type: 'WAVE_PLANNED',
+            waveId: wave.id,
+            waveNumber: wave.waveNumber,
+            sophisticationLevel: wave.sophisticationLevel,
+            agentAssignments: wave.agentAssignments,
+            maxConcurrency: wave.maxConcurrency,
+            contextBudget: wave.contextBudget,
+            estimatedDuration: wave.estimatedDuration,
+            targetIterations: wave.targetIterations
+          });
+        }
+        
+        context?.waves.push(wave);
+        
+        const waveResults = await this.waveManager.executeWave(wave, config, {
+          signal: waveSignal,
+          contextMonitor,
+          onAgentResult: async result => {
+            await runJournal.append({ type: 'AGENT_RESULT', waveId: wave.id, result });
+            if (config.gracefulShutdown && this.waveManager.shouldTriggerGracefulShutdown(config.contextThreshold, contextMonitor)) {
+              shutdownController.abort();
+            }
+          }
+        });
+        await runJournal.append({ type: 'WAVE_FINISHED', waveId: wave.id, status: wave.status });
+        
+        scheduler.recordWave(wave.sophisticationLevel, [...(pending?.completedResults || []), ...waveResults]);
+        context?.onWaveCompleted?.(wave, waveResults);
+        const successfulCount = waveResults.filter(result => result.success).length;
+        
+        totalIterations += successfulCount;
+        completedWaves++;
+        allResults.push(...waveResults);
+        
+        if (wave.status === 'CANCELLED') {
+          stopReason = context?.signal.aborted ? 'CANCELLED' : 'CONTEXT_THRESHOLD';
+          break;
+        }
+        if (successfulCount === 0 && wave.agentAssignments.length > 0) {
+          stopReason = 'NO_PROGRESS';
+          break;
+        }
+        
+        // Feed this wave's output back as prior work for the next wave
+        existingIterations = await IterationDiscovery.discover(outputDirectory, specification);
+        
+        // Failed iteration numbers are retried by the next wave instead of leaving gaps
+        const existingNumbers = new Set(existingIterations.map(iteration => iteration.number));
+        requeuedIterations = [
+          ...requeuedIterations,
+          ...waveResults.filter(result => !result.success).map(result => result.iterationNumber)
+        ].filter((number, index, all) => !existingNumbers.has(number) && all.indexOf(number) === index);
+      }
+      
+      await runJournal.append({ type: 'RUN_FINISHED', success: true, stopReason });
+      
+      return {
+        success: true,
+        totalIterations,
+        completedWaves,
+        outputDirectory,
+        results: allResults,
+        contextUsage: contextMonitor,
+        duration: Date.now() - startTime,
+        stopReason
+      };
+      
+    } catch (error) {
+      await journal?.append({ type: 'RUN_FINISHED', success: false, stopReason: 'ERROR' }).catch(() => undefined);
+      
+      return {
+        success: false,
+        totalIterations,
+        completedWaves,
+        outputDirectory,
+        results: allResults,
+        contextUsage: contextMonitor,
+        duration: Date.now() - startTime,
+        stopReason: 'ERROR',
+        errorMessage: `Orchestration failed: ${error}`
+      };
+    }
+  }
+  
+  /**
+   * Decide whether the loop should stop before planning another wave
+   */
+  checkStopCondition(
+    config: OrchestrationConfig,
+    existingCount: number,
+    completedWaves: number,
+    contextMonitor: ContextMonitor
+  ): OrchestrationStopReason | undefined {
+    const { mode } = config;
+    
+    if (mode.type === 'SINGLE' && completedWaves >= 1) {
+      return 'TARGET_REACHED';
+    }
+    if (typeof mode.count === 'number' && existingCount >= mode.count) {
+      return 'TARGET_REACHED';
+    }
+    if (mode.maxWaves !== undefined && completedWaves >= mode.maxWaves) {
+      return 'MAX_WAVES';
+    }
+    if (this.waveManager.shouldTriggerGracefulShutdown(config.contextThreshold, contextMonitor)) {
+      return 'CONTEXT_THRESHOLD';
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,59 @@
+// Progress Notifier - MCP Progress Notifications for Orchestration Jobs
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+import { AgentProgress } from '../agents/coordinator.js';
+import { GenerationWave, WaveResult } from '../types/index.js';
+
+export class ProgressNotifier {
+  private server: Server;
+  private progressToken: ProgressToken;
+  private sequence = 0;
+  
+  constructor(server: Server, progressToken: ProgressToken) {
+    this.server = server;
+    this.progressToken = progressToken;
+  }
+  
+  /**
+   * Report that a job started; sent first so the request sees progress before any agent runs
+   */
+  jobStarted(jobId: string): void {
+    this.send(`Job ${jobId} started`);
+  }
+  
+  /**
+   * Report an agent phase transition
+   */
+  agentUpdate(agent: AgentProgress): void {
+    const note = agent.progressNotes[agent.progressNotes.length - 1];
+    this.send(`Agent ${agent.agentId} (iteration ${agent.iterationNumber}): ${agent.status}${note ? ` - ${note}` : ''}`);
+  }
+  
+  /**
+   * Report completion of a wave
+   */
+  waveCompleted(wave: GenerationWave, results: WaveResult[]): void {
+    const succeeded = results.filter(result => result.success).length;
+    this.send(`Wave ${wave.waveNumber} ${wave.status}: ${succeeded}/${results.length} iterations succeeded`);
+  }
+  
+  /**
+   * Send a notification; progress counts events so it increases monotonically
+   *
+   * Clients on SDK 0.6 drop the message, so it only carries information also available from orchestration_status.
+   */
+  private send(message: string): void {
+    this.sequence++;
+    this.server.notification({
+      method: 'notifications/progress',
+      params: {
+        progressToken: this.progressToken,
+        progress: this.sequence,
+        message
+      }
+    }).catch(error => {
+      console.error('[Progress notification failed]', error);
+    });
+  }
+}
@@ -0,0 +1,134 @@
+// Run Journal Tests - Recovery of Interrupted Runs
+
+import { appendFile, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AgentAssignment,
+  GenerationWave,
+  OrchestrationConfig
+} from '../types/index.js';
+import { OutputWriter } from '../output/outputWriter.js';
+import { loadExampleSpecification, planTestWave } from '../testing/fixtures.js';
+import { RunJournal } from './runJournal.js';
+
+const specification = loadExampleSpecification();
+
+const config: OrchestrationConfig = {
+  mode: { type: 'BATCH', count: 3, batchSize: 3 },
+  contextThreshold: 0.8,
+  gracefulShutdown: true,
+  progressiveSophistication: false,
+  overwriteExisting: false,
+  failureHandling: { maxRetries: 0, timeoutMs: 1000, gracefulDegradation: true }
+};
+
+describe('RunJournal.recover', () => {
+  let directory: string;
+  let journal: RunJournal;
+  let wave: GenerationWave;
+  
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'run-journal-'));
+    wave = planTestWave(directory, { specification, mode: config.mode });
+    
+    journal = await RunJournal.open(directory, 'job-1');
+    await journal.append({ type: 'RUN_STARTED', jobId: 'job-1', specification, outputDirectory: directory, config });
+    await journal.append({
+      type: 'WAVE_PLANNED',
+      waveId: wave.id,
+      waveNumber: wave.waveNumber,
+      sophisticationLevel: wave.sophisticationLevel,
+      agentAssignments: wave.agentAssignments,
+      maxConcurrency: wave.maxConcurrency,
+      contextBudget: wave.contextBudget,
+      estimatedDuration: wave.estimatedDuration,
+      targetIterations: wave.targetIterations
+    });
+  });
+  
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+  
+  async function complete(assignment: AgentAssignment, journaled = true): Promise<void> {
+    const outputPath = await new OutputWriter().write(OutputWriter.resolveOutputPath(assignment, wave), `iteration ${assignment.iterationNumber}\n`);
+    if (journaled) {
+      await journal.append({
+        type: 'AGENT_RESULT',
+        waveId: wave.id,
+        result: { agentId: assignment.agentId, iterationNumber: assignment.iterationNumber, success: true, outputPath, completionTime: 1 }
+      });
+    }
+  }
+  
+  it('resumes an unfinished wave with only the assignments that never completed', async () => {
+    const [first, second, third] = wave.agentAssignments;
+    await complete(first);
+    await complete(second, false); // Written just before the crash, never journaled
+    
+    const recovered = await RunJournal.recover(directory, 'job-1');
+    
+    expect(recovered.finished).toBe(false);
+    expect(recovered.requeuedIterations).toEqual([]);
+    expect(recovered.waves).toHaveLength(1);
+    expect(recovered.waves[0].finished).toBe(false);
+    expect(recovered.waves[0].completedResults.map(result => result.agentId)).toEqual([first.agentId]);
+    expect(recovered.waves[0].wave).toMatchObject({ id: wave.id, waveNumber: 1, outputDirectory: directory });
+    expect(recovered.waves[0].wave.agentAssignments).toEqual([third]);
+  });
+  
+  it('keeps a finished wave finished and requeues its failed iterations', async () => {
+    const [first, second, third] = wave.agentAssignments;
+    await complete(first);
+    await complete(second);
+    await journal.append({
+      type: 'AGENT_RESULT',
+      waveId: wave.id,
+      result: { agentId: third.agentId, iterationNumber: third.iterationNumber, success: false, errorMessage: 'failed', completionTime: 1 }
+    });
+    await journal.append({ type: 'WAVE_FINISHED', waveId: wave.id, status: 'COMPLETED' });
+    
+    const recovered = await RunJournal.recover(directory, 'job-1');
+    
+    expect(recovered.waves[0].finished).toBe(true);
+    expect(recovered.waves[0].wave.agentAssignments).toEqual([]);
+    expect(recovered.requeuedIterations).toEqual([third.iterationNumber]);
+  });
+  
+  it('does not requeue a failed iteration that a later wave already wrote', async () => {
+    const [first, second, third] = wave.agentAssignments;
+    await complete(first);
+    await complete(second);
+    await journal.append({ type: 'WAVE_FINISHED', waveId: wave.id, status: 'COMPLETED' });
+    await complete(third, false);
+    
+    const recovered = await RunJournal.recover(directory, 'job-1');
+    
+    expect(recovered.waves[0].finished).toBe(true);
+    expect(recovered.requeuedIterations).toEqual([]);
+  });
+  
+  it('treats errored runs as resumable and completed runs as finished', async () => {
+    await journal.append({ type: 'RUN_FINISHED', success: false, stopReason: 'ERROR' });
+    expect((await RunJournal.recover(directory, 'job-1')).finished).toBe(false);
+    expect(await RunJournal.findLatestUnfinished(directory)).toBe('job-1');
+    
+    await journal.append({ type: 'RUN_FINISHED', success: true, stopReason: 'TARGET_REACHED' });
+    expect((await RunJournal.recover(directory, 'job-1')).finished).toBe(true);
+    expect(await RunJournal.findLatestUnfinished(directory)).toBeUndefined();
+  });
+  
+  it('ignores a torn final entry', async () => {
+    await appendFile(journal.path, '{"type":"WAVE_FINI', 'utf8');
+    
+    expect((await RunJournal.recover(directory, 'job-1')).waves).toHaveLength(1);
+  });
+  
+  it('rejects a corrupt entry before the last line and a missing journal', async () => {
+    await writeFile(journal.path, 'not json\n{}\n', 'utf8');
+    
+    await expect(RunJournal.recover(directory, 'job-1')).rejects.toThrow('Corrupt journal entry at line 1');
+    await expect(RunJournal.recover(directory, 'job-2')).rejects.toThrow('No journal found for job job-2');
+  });
+});
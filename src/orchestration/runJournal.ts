@@ -0,0 +1,234 @@
+// Run Journal - Append-Only Crash-Safe Record of Orchestration Runs
+
+import { appendFile, mkdir, readdir, readFile, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  AgentAssignment,
+  GenerationWave,
+  OrchestrationConfig,
+  OrchestrationStopReason,
+  SophisticationLevel,
+  UniversalSpecification,
+  WaveResult,
+  WaveStatus
+} from '../types/index.js';
+import { IterationManifestStore } from '../output/iterationManifest.js';
+import { IterationDiscovery } from '../output/iterationDiscovery.js';
+
+export const JOURNAL_DIRECTORY_NAME = '.journal';
+
+export type JournalEntry =
+  | {
+      type: 'RUN_STARTED';
+      timestamp: string;
+      jobId: string;
+      specification: UniversalSpecification;
+      outputDirectory: string;
+      config: OrchestrationConfig;
+    }
+  | { type: 'RUN_RESUMED'; timestamp: string; jobId: string }
+  | {
+      type: 'WAVE_PLANNED';
+      timestamp: string;
+      waveId: string;
+      waveNumber: number;
+      sophisticationLevel: SophisticationLevel;
+      agentAssignments: AgentAssignment[];
+      maxConcurrency: number;
+      contextBudget: number;
+      estimatedDuration: number;
+      targetIterations: number;
+    }
+  | { type: 'AGENT_RESULT'; timestamp: string; waveId: string; result: WaveResult }
+  | { type: 'WAVE_FINISHED'; timestamp: string; waveId: string; status: WaveStatus }
+  | { type: 'RUN_FINISHED'; timestamp: string; success: boolean; stopReason?: OrchestrationStopReason };
+
+type JournalEntryInput = JournalEntry extends infer E
+  ? E extends JournalEntry ? Omit<E, 'timestamp'> : never
+  : never;
+
+export interface RecoveredWave {
+  wave: GenerationWave;
+  completedResults: WaveResult[]; // Successful results recorded before the interruption
+  finished: boolean;
+}
+
+export interface RecoveredRun {
+  jobId: string;
+  journal: RunJournal;
+  specification: UniversalSpecification;
+  outputDirectory: string;
+  config: OrchestrationConfig;
+  waves: RecoveredWave[];
+  requeuedIterations: number[]; // Iterations of finished waves that never produced an artifact
+  finished: boolean;
+}
+
+export class RunJournal {
+  readonly path: string;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  
+  constructor(path: string) {
+    this.path = path;
+  }
+  
+  /**
+   * Get the journal location for a job within an output directory
+   */
+  static journalPath(outputDirectory: string, jobId: string): string {
+    return join(outputDirectory, JOURNAL_DIRECTORY_NAME, `${jobId}.jsonl`);
+  }
+  
+  /**
+   * Open (creating the directory if needed) the journal of a job
+   */
+  static async open(outputDirectory: string, jobId: string): Promise<RunJournal> {
+    await mkdir(join(outputDirectory, JOURNAL_DIRECTORY_NAME), { recursive: true });
+    return new RunJournal(this.journalPath(outputDirectory, jobId));
+  }
+  
+  /**
+   * Append an entry; writes are serialized so entries keep their order
+   */
+  append(entry: JournalEntryInput): Promise<void> {
+    const line = JSON.stringify({ ...entry, timestamp: new Date().toISOString() }) + '\n';
+    this.pendingWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(() => appendFile(this.path, line, 'utf8'));
+    return this.pendingWrite;
+  }
+  
+  /**
+   * Read all entries, ignoring a torn final line left by a crash
+   */
+  async read(): Promise<JournalEntry[]> {
+    const raw = await readFile(this.path, 'utf8');
+    const lines = raw.split('\n').filter(line => line.trim().length > 0);
+    const entries: JournalEntry[] = [];
+    
+    lines.forEach((line, index) => {
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        if (index !== lines.length - 1) {
+          throw new Error(`Corrupt journal entry at line ${index + 1} of ${this.path}: ${error}`);
+        }
+      }
+    });
+    return entries;
+  }
+  
+  /**
+   * Find the most recently modified resumable journal in an output directory
+   */
+  static async findLatestUnfinished(outputDirectory: string): Promise<string | undefined> {
+    const directory = join(outputDirectory, JOURNAL_DIRECTORY_NAME);
+    const fileNames = await readdir(directory).catch(() => [] as string[]);
+    
+    const candidates: { jobId: string; modified: number }[] = [];
+    for (const fileName of fileNames.filter(name => name.endsWith('.jsonl'))) {
+      const jobId = fileName.replace(/\.jsonl$/, '');
+      const entries = await new RunJournal(join(directory, fileName)).read();
+      if (!this.isFinished(entries)) {
+        candidates.push({ jobId, modified: (await stat(join(directory, fileName))).mtimeMs });
+      }
+    }
+    
+    return candidates.sort((a, b) => b.modified - a.modified)[0]?.jobId;
+  }
+  
+  /**
+   * Rebuild run state from a job's journal
+   *
+   * Waves keep their ids, numbers and sophistication levels; each recovered wave only
+   * carries the assignments that never completed, with their original iteration
+   * numbers and directives. Iterations already present in the manifest or on disk count
+   * as completed. Waves with a WAVE_FINISHED entry are finished even when some of their
+   * agents failed; those iterations are returned for requeueing instead.
+   */
+  static async recover(outputDirectory: string, jobId: string): Promise<RecoveredRun> {
+    const journal = new RunJournal(this.journalPath(outputDirectory, jobId));
+    const entries = await journal.read().catch(error => {
+      if (error?.code === 'ENOENT') {
+        throw new Error(`No journal found for job ${jobId} in ${outputDirectory}`);
+      }
+      throw error;
+    });
+    
+    const started = entries.find(entry => entry.type === 'RUN_STARTED');
+    if (!started || started.type !== 'RUN_STARTED') {
+      throw new Error(`Journal ${journal.path} has no RUN_STARTED entry`);
+    }
+    
+    const existingIterations = await IterationDiscovery.discover(outputDirectory, started.specification);
+    const manifest = await IterationManifestStore.read(outputDirectory);
+    const manifestAgents = new Set(
+      (manifest?.iterations || []).map(entry => `${entry.agentId}:${entry.iteration.number}`)
+    );
+    const existingNumbers = new Set(existingIterations.map(iteration => iteration.number));
+    const finishedWaves = new Set(
+      entries.filter(entry => entry.type === 'WAVE_FINISHED').map(entry => entry.waveId)
+    );
+    
+    const waves: RecoveredWave[] = [];
+    const requeuedIterations: number[] = [];
+    for (const entry of entries) {
+      if (entry.type !== 'WAVE_PLANNED') continue;
+      
+      const completedResults = entries
+        .filter((candidate): candidate is Extract<JournalEntry, { type: 'AGENT_RESULT' }> =>
+          candidate.type === 'AGENT_RESULT' && candidate.waveId === entry.waveId && candidate.result.success)
+        .map(candidate => candidate.result);
+      const completedAgents = new Set(completedResults.map(result => result.agentId));
+      
+      const remaining = entry.agentAssignments.filter(assignment =>
+        !completedAgents.has(assignment.agentId) &&
+        !manifestAgents.has(`${assignment.agentId}:${assignment.iterationNumber}`) &&
+        !existingNumbers.has(assignment.iterationNumber)
+      );
+      const finished = finishedWaves.has(entry.waveId) || remaining.length === 0;
+      if (finished) {
+        requeuedIterations.push(...remaining.map(assignment => assignment.iterationNumber));
+      }
+      
+      waves.push({
+        wave: {
+          id: entry.waveId,
+          waveNumber: entry.waveNumber,
+          specification: started.specification,
+          sophisticationLevel: entry.sophisticationLevel,
+          agentAssignments: finished ? [] : remaining,
+          maxConcurrency: entry.maxConcurrency,
+          contextBudget: entry.contextBudget,
+          estimatedDuration: entry.estimatedDuration,
+          outputDirectory,
+          existingIterations,
+          targetIterations: entry.targetIterations,
+          status: 'PLANNED'
+        },
+        completedResults,
+        finished
+      });
+    }
+    
+    return {
+      jobId,
+      journal,
+      specification: started.specification,
+      outputDirectory,
+      config: started.config,
+      waves,
+      requeuedIterations: Array.from(new Set(requeuedIterations)),
+      finished: this.isFinished(entries)
+    };
+  }
+  
+  /**
+   * Runs that errored or were cancelled remain resumable
+   */
+  private static isFinished(entries: JournalEntry[]): boolean {
+    return entries.some(entry =>
+      entry.type === 'RUN_FINISHED' && entry.stopReason !== 'ERROR' && entry.stopReason !== 'CANCELLED'
+    );
+  }
+}
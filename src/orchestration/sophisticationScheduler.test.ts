@@ -0,0 +1,105 @@
+// Progressive Sophistication Scheduler Tests - Levels and Size Factors per Evolution Pattern
+
+import { OrchestrationConfig, UniversalSpecification, WaveResult } from '../types/index.js';
+import { loadExampleSpecification } from '../testing/fixtures.js';
+import { SophisticationScheduler } from './sophisticationScheduler.js';
+
+const example = loadExampleSpecification();
+
+function schedulerFor(
+  evolutionPattern: UniversalSpecification['evolutionPattern'],
+  overrides: Partial<OrchestrationConfig> = {}
+): SophisticationScheduler {
+  return new SophisticationScheduler({ ...example, evolutionPattern }, {
+    mode: { type: 'INFINITE', count: 'INFINITE' },
+    contextThreshold: 0.9,
+    gracefulShutdown: true,
+    progressiveSophistication: true,
+    overwriteExisting: false,
+    failureHandling: { maxRetries: 0, timeoutMs: 1000, gracefulDegradation: true },
+    ...overrides
+  });
+}
+
+function results(...qualityScores: Array<number | null>): WaveResult[] {
+  return qualityScores.map((qualityScore, index) => ({
+    agentId: `agent-${index}`,
+    iterationNumber: index + 1,
+    success: true,
+    qualityScore,
+    completionTime: 0
+  }));
+}
+
+// Runs waves with the given results and returns each wave's level and size factor
+function run(scheduler: SophisticationScheduler, waves: WaveResult[][]): Array<[number, number]> {
+  return waves.map(waveResults => {
+    const { sophisticationLevel, sizeFactor } = scheduler.nextWave();
+    scheduler.recordWave(sophisticationLevel, waveResults);
+    return [sophisticationLevel.level, sizeFactor];
+  });
+}
+
+describe('SophisticationScheduler', () => {
+  it('stays at the lowest level with unit waves when progression is off', () => {
+    const scheduler = schedulerFor('EXPONENTIAL', { progressiveSophistication: false });
+    
+    expect(run(scheduler, [results(95), results(95), results(95)])).toEqual([[1, 1], [1, 1], [1, 1]]);
+    expect(scheduler.nextWave().phase).toBe('STEADY');
+  });
+  
+  it('steps LINEAR schedules up every wavesPerLevel waves and stops at the top level', () => {
+    const scheduler = schedulerFor('LINEAR', { sophisticationSchedule: { wavesPerLevel: 1 } });
+    
+    expect(run(scheduler, Array.from({ length: 5 }, () => results(50))).map(([level]) => level)).toEqual([1, 2, 3, 4, 4]);
+  });
+  
+  it('doubles EXPONENTIAL wave sizes up to the cap while stepping up like LINEAR', () => {
+    expect(run(schedulerFor('EXPONENTIAL'), Array.from({ length: 5 }, () => results(50)))).toEqual([
+      [1, 1], [1, 2], [2, 4], [2, 8], [3, 8]
+    ]);
+  });
+  
+  it('alternates CREATIVE_BURST exploration and consolidation, stepping up after each pair', () => {
+    const scheduler = schedulerFor('CREATIVE_BURST');
+    
+    expect(scheduler.nextWave()).toMatchObject({ sizeFactor: 2, phase: 'EXPLORATION' });
+    expect(run(scheduler, [results(50), results(50), results(50), results(50)])).toEqual([
+      [1, 2], [1, 0.5], [2, 2], [2, 0.5]
+    ]);
+  });
+  
+  it('steps ADAPTIVE schedules up only when average quality reaches the threshold', () => {
+    const scheduler = schedulerFor('ADAPTIVE', { sophisticationSchedule: { promotionThreshold: 80 } });
+    
+    expect(run(scheduler, [results(70, 80), results(90, 70), results(85), results(10)]).map(([level]) => level))
+      .toEqual([1, 1, 2, 3]);
+  });
+  
+  it('steps ADAPTIVE schedules up like LINEAR while waves are unscored', () => {
+    const scheduler = schedulerFor('ADAPTIVE', { sophisticationSchedule: { wavesPerLevel: 2 } });
+    
+    expect(run(scheduler, [results(null, null), results(null), results(null), results(50), results(null)]).map(([level]) => level))
+      .toEqual([1, 1, 2, 2, 2]);
+    expect(scheduler.nextWave().sophisticationLevel.level).toBe(3);
+  });
+  
+  it('ignores failed results when averaging quality', () => {
+    const scheduler = schedulerFor('ADAPTIVE');
+    const failed: WaveResult = { agentId: 'failed', iterationNumber: 9, success: false, qualityScore: 0, completionTime: 0 };
+    
+    run(scheduler, [[...results(90), failed]]);
+    expect(scheduler.nextWave().sophisticationLevel.level).toBe(2);
+  });
+  
+  it('requires at least one sophistication level', () => {
+    expect(() => new SophisticationScheduler({ ...example, sophisticationLevels: [] }, {
+      mode: { type: 'SINGLE', count: 1 },
+      contextThreshold: 0.9,
+      gracefulShutdown: true,
+      progressiveSophistication: true,
+      overwriteExisting: false,
+      failureHandling: { maxRetries: 0, timeoutMs: 1000, gracefulDegradation: true }
+    })).toThrow('defines no sophistication levels');
+  });
+});
@@ -0,0 +1,109 @@
+// Progressive Sophistication Scheduler - Evolution Pattern Driven Wave Shaping
+
+import {
+  OrchestrationConfig,
+  SophisticationLevel,
+  UniversalSpecification,
+  WaveResult
+} from '../types/index.js';
+
+export interface WaveSchedule {
+  sophisticationLevel: SophisticationLevel;
+  sizeFactor: number; // Multiplier applied to the mode's base wave size
+  phase: 'STEADY' | 'EXPLORATION' | 'CONSOLIDATION';
+}
+
+interface CompletedWave {
+  level: number;
+  averageQuality: number | null; // Null when no successful result was scored
+}
+
+const DEFAULT_WAVES_PER_LEVEL = 2;
+const DEFAULT_PROMOTION_THRESHOLD = 85;
+const MAX_SIZE_FACTOR = 8;
+
+export class SophisticationScheduler {
+  private levels: SophisticationLevel[];
+  private pattern: UniversalSpecification['evolutionPattern'];
+  private progressive: boolean;
+  private wavesPerLevel: number;
+  private promotionThreshold: number;
+  private history: CompletedWave[] = [];
+  private levelIndex = 0;
+  private wavesAtLevel = 0;
+  
+  constructor(specification: UniversalSpecification, config: OrchestrationConfig) {
+    this.levels = [...specification.sophisticationLevels].sort((a, b) => a.level - b.level);
+    if (this.levels.length === 0) {
+      throw new Error(`Specification "${specification.name}" defines no sophistication levels`);
+    }
+    this.pattern = specification.evolutionPattern;
+    this.progressive = config.progressiveSophistication;
+    this.wavesPerLevel = Math.max(1, config.sophisticationSchedule?.wavesPerLevel ?? DEFAULT_WAVES_PER_LEVEL);
+    this.promotionThreshold = config.sophisticationSchedule?.promotionThreshold ?? DEFAULT_PROMOTION_THRESHOLD;
+  }
+  
+  /**
+   * Select the sophistication level and wave size for the next wave
+   */
+  nextWave(): WaveSchedule {
+    const sophisticationLevel = this.levels[this.levelIndex];
+    if (!this.progressive) {
+      return { sophisticationLevel: this.levels[0], sizeFactor: 1, phase: 'STEADY' };
+    }
+    
+    const waveIndex = this.history.length;
+    switch (this.pattern) {
+      case 'EXPONENTIAL':
+        return { sophisticationLevel, sizeFactor: Math.min(MAX_SIZE_FACTOR, 2 ** waveIndex), phase: 'STEADY' };
+      case 'CREATIVE_BURST':
+        // Even waves explore widely, odd waves consolidate at the same level
+        return waveIndex % 2 === 0
+          ? { sophisticationLevel, sizeFactor: 2, phase: 'EXPLORATION' }
+          : { sophisticationLevel, sizeFactor: 0.5, phase: 'CONSOLIDATION' };
+      case 'LINEAR':
+      case 'ADAPTIVE':
+      default:
+        return { sophisticationLevel, sizeFactor: 1, phase: 'STEADY' };
+    }
+  }
+  
+  /**
+   * Record a finished wave and advance the level according to the evolution pattern
+   */
+  recordWave(level: SophisticationLevel, results: WaveResult[]): void {
+    const scored = results.filter(result => result.success && typeof result.qualityScore === 'number');
+    const averageQuality = scored.length > 0
+      ? scored.reduce((sum, result) => sum + result.qualityScore!, 0) / scored.length
+      : null;
+    
+    this.history.push({ level: level.level, averageQuality });
+    this.wavesAtLevel++;
+    
+    if (!this.progressive) return;
+    
+    switch (this.pattern) {
+      case 'LINEAR':
+      case 'EXPONENTIAL':
+        if (this.wavesAtLevel >= this.wavesPerLevel) this.promote();
+        break;
+      case 'ADAPTIVE':
+        // Without a measured quality there is nothing to adapt to, so unscored waves step up like LINEAR
+        if (averageQuality === null ? this.wavesAtLevel >= this.wavesPerLevel : averageQuality >= this.promotionThreshold) {
+          this.promote();
+        }
+        break;
+      case 'CREATIVE_BURST':
+        // Promote after each exploration/consolidation pair
+        if (this.history.length % 2 === 0) this.promote();
+        break;
+    }
+  }
+  
+  private promote(): void {
+    if (this.levelIndex < this.levels.length - 1) {
+      this.levelIndex++;
+      this.wavesAtLevel = 0;
+    }
+  }
+}
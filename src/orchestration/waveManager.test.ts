@@ -0,0 +1,36 @@
+// Wave Manager Tests - Wave Sizing and Iteration Numbering
+
+import { loadExampleSpecification, planTestWave } from '../testing/fixtures.js';
+
+const specification = loadExampleSpecification();
+
+describe('WaveManager.planWave', () => {
+  it('never plans more agents than mode.batchSize', () => {
+    const wave = (sizeFactor: number) => planTestWave('/tmp/wave-manager-test', {
+      mode: { type: 'BATCH', count: 20, batchSize: 3 },
+      sizeFactor
+    });
+    
+    expect(wave(2).agentAssignments).toHaveLength(3);
+    expect(wave(8).agentAssignments).toHaveLength(3);
+    expect(wave(0.5).agentAssignments).toHaveLength(2);
+  });
+  
+  it('lets the size factor grow waves without a batchSize', () => {
+    const wave = planTestWave('/tmp/wave-manager-test', { mode: { type: 'INFINITE', count: 'INFINITE' }, sizeFactor: 2 });
+    
+    expect(wave.agentAssignments).toHaveLength(10);
+  });
+  
+  it('never plans past mode.count', () => {
+    const wave = planTestWave('/tmp/wave-manager-test', { mode: { type: 'BATCH', count: 2, batchSize: 5 }, sizeFactor: 4 });
+    
+    expect(wave.agentAssignments.map(({ iterationNumber }) => iterationNumber)).toEqual([1, 2]);
+  });
+  
+  it('plans a single agent in SINGLE mode whatever the size factor', () => {
+    const wave = planTestWave('/tmp/wave-manager-test', { specification, mode: { type: 'SINGLE', count: 1 }, sizeFactor: 8 });
+    
+    expect(wave.agentAssignments).toHaveLength(1);
+  });
+});
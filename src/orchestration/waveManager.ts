@@ -12,43 +12,89 @@ import {
   UniversalSpecification,
   IterationInfo,
   SophisticationLevel,
-  WavePlanResult
+  WavePlanResult,
+  OrchestrationConfig,
+  PromptPreviewWave,
+  Tokenizer
 } from '../types/index.js';
+import { AgentCoordinator, AgentRunOptions } from '../agents/coordinator.js';
+import { IterationDiscovery } from '../output/iterationDiscovery.js';
+import { OutputWriter } from '../output/outputWriter.js';
+import { defaultTokenizer } from '../context/tokenizer.js';
+import { ValidationRuleEngine } from '../validation/ruleEngine.js';
+
+export interface WaveExecutionHooks {
+  signal?: AbortSignal; // Stops starting queued agents once aborted
+  contextMonitor?: ContextMonitor; // Run-scoped monitor; defaults to the manager's own
+  onAgentResult?: AgentRunOptions['onResult'];
+}
+
+const MAX_WAVE_SIZE = 20;
+const COMPLETION_TOKENS_PER_LEVEL = 1500; // Expected output size per sophistication level step
+const PLANNED_WAVE_TTL_MS = 60 * 60 * 1000; // Plans never executed are dropped after an hour
 
 export class WaveManager {
   private contextMonitor: ContextMonitor;
   private activeWaves: Map<string, GenerationWave> = new Map();
+  private plannedWaves: Map<string, { wave: GenerationWave; plannedAt: number }> = new Map(); // Plans awaiting execution by id
+  private agentCoordinator: AgentCoordinator;
+  private tokenizer: Tokenizer;
+  private waveReservations: Map<string, { monitor: ContextMonitor; tokens: number }> = new Map();
+  
+  constructor(
+    agentCoordinator: AgentCoordinator,
+    initialCapacity: number = 100000,
+    tokenizer: Tokenizer = defaultTokenizer
+  ) {
+    this.agentCoordinator = agentCoordinator;
+    this.tokenizer = tokenizer;
+    this.contextMonitor = this.createContextMonitor(initialCapacity);
+  }
   
-  constructor(initialCapacity: number = 100000) {
-    this.contextMonitor = {
-      totalCapacity: initialCapacity,
+  /**
+   * Create an empty context monitor, e.g. to account a single orchestration run
+   */
+  createContextMonitor(totalCapacity: number = this.contextMonitor.totalCapacity): ContextMonitor {
+    return {
+      totalCapacity,
       usedCapacity: 0,
       reservedCapacity: 0,
       waveUsage: new Map(),
       agentUsage: new Map(),
       utilizationPercentage: 0,
-      remainingCapacity: initialCapacity
+      remainingCapacity: totalCapacity
     };
   }
   
   /**
    * Plan a generation wave based on specifications and existing work
+   *
+   * Wave numbers belong to the caller's run, which numbers its waves from 1.
    */
   planWave(
     specification: UniversalSpecification,
     mode: OrchestrationMode,
     existingIterations: IterationInfo[],
     sophisticationLevel: SophisticationLevel,
-    outputDirectory: string
+    outputDirectory: string,
+    waveNumber: number,
+    sizeFactor: number = 1,
+    requeuedIterations: number[] = []
   ): WavePlanResult {
     const waveId = crypto.randomUUID();
-    const waveNumber = this.getNextWaveNumber();
     
-    // Determine wave size based on mode
-    const waveSize = this.calculateWaveSize(mode, existingIterations.length);
-    
-    // Calculate context requirements
-    const contextRequirement = this.estimateContextRequirement(waveSize, sophisticationLevel);
+    // Determine wave size based on mode and schedule, never planning past mode.count
+    let waveSize = this.calculateWaveSize(mode, existingIterations.length);
+    if (mode.type !== 'SINGLE') {
+      waveSize = Math.min(MAX_WAVE_SIZE, Math.max(1, Math.round(waveSize * sizeFactor)));
+      // The caller's batchSize is an upper bound; the schedule may only shrink waves below it
+      if (mode.batchSize !== undefined) {
+        waveSize = Math.min(waveSize, Math.max(1, mode.batchSize));
+      }
+    }
+    if (typeof mode.count === 'number') {
+      waveSize = Math.max(1, Math.min(waveSize, mode.count - existingIterations.length));
+    }
     
     // Generate agent assignments
     const agentAssignments = this.generateAgentAssignments(
@@ -56,7 +102,8 @@ export class WaveManager {
       waveSize,
       existingIterations,
       sophisticationLevel,
-      outputDirectory
+      outputDirectory,
+      requeuedIterations
     );
     
     // Create wave configuration
@@ -67,7 +114,7 @@ export class WaveManager {
       sophisticationLevel,
       agentAssignments,
       maxConcurrency: Math.min(waveSize, 5), // Limit concurrent agents
-      contextBudget: contextRequirement,
+      contextBudget: 0,
       estimatedDuration: this.estimateWaveDuration(waveSize, sophisticationLevel),
       outputDirectory,
       existingIterations,
@@ -75,6 +122,10 @@ export class WaveManager {
       status: 'PLANNED'
     };
     
+    // Calculate context requirements from the rendered agent prompts
+    const contextRequirement = this.estimateContextRequirement(waveConfiguration);
+    waveConfiguration.contextBudget = contextRequirement;
+    
     return {
       waveConfiguration,
       agentAssignments,
@@ -83,30 +134,131 @@ export class WaveManager {
     };
   }
   
+  /**
+   * Drop trailing assignments until the plan's estimated context fits within a budget
+   */
+  fitPlanToContextBudget(plan: WavePlanResult, contextBudget: number): WavePlanResult {
+    const wave = plan.waveConfiguration;
+    const requirements = wave.agentAssignments.map(assignment => this.estimateAgentRequirement(assignment, wave));
+    
+    let contextRequirement = 0;
+    let fittingAgents = 0;
+    while (fittingAgents < requirements.length && contextRequirement + requirements[fittingAgents] <= contextBudget) {
+      contextRequirement += requirements[fittingAgents++];
+    }
+    if (fittingAgents === 0) {
+      throw new Error(`Context budget of ${contextBudget} tokens cannot fit a single agent (estimated ${requirements[0]} tokens)`);
+    }
+    
+    wave.agentAssignments = wave.agentAssignments.slice(0, fittingAgents);
+    wave.maxConcurrency = Math.min(fittingAgents, 5);
+    wave.targetIterations = fittingAgents;
+    wave.contextBudget = contextRequirement;
+    
+    return {
+      ...plan,
+      agentAssignments: wave.agentAssignments,
+      contextRequirement
+    };
+  }
+  
+  /**
+   * Render every agent prompt of a planned wave with token estimates, without executing anything
+   */
+  previewWave(wave: GenerationWave): PromptPreviewWave {
+    const agents = wave.agentAssignments.map(assignment => {
+      const prompt = this.agentCoordinator.generateAgentPrompt(assignment, wave);
+      const estimatedTokens = this.estimatePromptTokens(prompt);
+      return {
+        agentId: assignment.agentId,
+        iterationNumber: assignment.iterationNumber,
+        innovationFocus: assignment.uniqueDirective.innovationFocus,
+        outputPath: OutputWriter.resolveOutputPath(assignment, wave),
+        estimatedTokens,
+        estimatedContext: estimatedTokens + this.estimateCompletionTokens(wave),
+        prompt
+      };
+    });
+    
+    return {
+      waveId: wave.id,
+      waveNumber: wave.waveNumber,
+      sophisticationLevel: wave.sophisticationLevel.name,
+      agents,
+      estimatedTokens: agents.reduce((total, agent) => total + agent.estimatedTokens, 0),
+      estimatedContext: agents.reduce((total, agent) => total + agent.estimatedContext, 0)
+    };
+  }
+  
   /**
    * Execute a planned generation wave
    */
-  async executeWave(wave: GenerationWave): Promise<WaveResult[]> {
+  async executeWave(
+    wave: GenerationWave,
+    config?: OrchestrationConfig,
+    hooks: WaveExecutionHooks = {}
+  ): Promise<WaveResult[]> {
+    const { signal } = hooks;
     wave.status = 'IN_PROGRESS';
     wave.startTime = new Date();
     
+    const contextMonitor = hooks.contextMonitor ?? this.contextMonitor;
+    this.plannedWaves.delete(wave.id); // A plan runs once
     this.activeWaves.set(wave.id, wave);
-    this.updateContextUsage(wave.id, wave.contextBudget);
+    this.reserveContext(wave.id, contextMonitor, wave.contextBudget);
     
     try {
+      // Results are exposed on the wave as they land so callers can observe partial progress
       const results: WaveResult[] = [];
+      wave.results = results;
+      const gracefulDegradation = config?.failureHandling.gracefulDegradation ?? true;
+      
+      // Without graceful degradation the first failed agent stops queued agents from starting;
+      // a CRITICAL validation failure does so regardless
+      const failFast = new AbortController();
+      const runOptions: AgentRunOptions = {
+        failureHandling: config?.failureHandling,
+        overwriteExisting: config?.overwriteExisting,
+        signal: signal ? AbortSignal.any([signal, failFast.signal]) : failFast.signal,
+        onResult: async result => {
+          results.push(result);
+          this.recordAgentUsage(contextMonitor, wave.id, result);
+          if (!result.success && (!gracefulDegradation || ValidationRuleEngine.hasCriticalFailure(result))) {
+            failFast.abort(new Error(result.errorMessage));
+          }
+          await hooks.onAgentResult?.(result);
+        }
+      };
+      
+      // Agents share a sliding window of wave.maxConcurrency slots
+      const waveResults = await this.agentCoordinator.coordinateAgents(
+        wave.agentAssignments,
+        wave,
+        contextMonitor,
+        runOptions
+      );
+      
+      // Keep assignment order and include results that bypassed onResult (coordination errors)
+      results.splice(0, results.length, ...waveResults);
       
-      // Execute agents in batches to manage concurrency
-      const batches = this.createAgentBatches(wave.agentAssignments, wave.maxConcurrency);
+      const critical = waveResults.find(result => ValidationRuleEngine.hasCriticalFailure(result));
+      if (critical) {
+        throw new Error(`Critical validation failure in iteration ${critical.iterationNumber}: ${critical.errorMessage}`);
+      }
       
-      for (const batch of batches) {
-        const batchResults = await this.executeBatch(batch, wave);
-        results.push(...batchResults);
+      const failed = waveResults.filter(result => !result.success);
+      if (failed.length > 0 && !gracefulDegradation) {
+        throw new Error(`${failed.length} agent(s) failed: ${failed[0].errorMessage}`);
+      }
+      // Only waves that actually skipped queued agents count as cancelled
+      if (signal?.aborted && waveResults.length < wave.agentAssignments.length) {
+        wave.status = 'CANCELLED';
       }
       
-      wave.status = 'COMPLETED';
+      if (wave.status !== 'CANCELLED') {
+        wave.status = 'COMPLETED';
+      }
       wave.endTime = new Date();
-      wave.results = results;
       
       return results;
       
@@ -115,15 +267,75 @@ export class WaveManager {
       wave.endTime = new Date();
       throw new Error(`Wave execution failed: ${error}`);
     } finally {
-      this.releaseContextUsage(wave.id);
+      this.releaseContext(wave.id);
+      this.activeWaves.delete(wave.id);
     }
   }
   
   /**
    * Monitor context usage and determine if graceful shutdown is needed
    */
-  shouldTriggerGracefulShutdown(threshold: number = 0.9): boolean {
-    return this.contextMonitor.utilizationPercentage >= threshold;
+  shouldTriggerGracefulShutdown(threshold: number = 0.9, contextMonitor: ContextMonitor = this.contextMonitor): boolean {
+    // utilizationPercentage is 0-100 while thresholds are expressed as 0.0-1.0
+    return contextMonitor.utilizationPercentage / 100 >= threshold;
+  }
+  
+  /**
+   * Record the tokens an agent actually consumed against its wave and the monitor
+   */
+  recordAgentUsage(contextMonitor: ContextMonitor, waveId: string, result: WaveResult): void {
+    if (!result.tokenUsage) {
+      return;
+    }
+    const tokens = result.tokenUsage.totalTokens;
+    contextMonitor.agentUsage.set(result.agentId, tokens);
+    contextMonitor.waveUsage.set(waveId, (contextMonitor.waveUsage.get(waveId) || 0) + tokens);
+    contextMonitor.usedCapacity += tokens;
+    this.refreshContextMonitor(contextMonitor);
+  }
+  
+  /**
+   * Estimate tokens for a prompt with the configured tokenizer
+   */
+  estimatePromptTokens(prompt: string): number {
+    return this.tokenizer.countTokens(prompt);
+  }
+  
+  /**
+   * Keep a planned wave so it can be executed later by id, until it runs or expires
+   */
+  registerPlannedWave(wave: GenerationWave): void {
+    this.pruneExpiredPlans();
+    this.plannedWaves.set(wave.id, { wave, plannedAt: Date.now() });
+  }
+  
+  /**
+   * Get an executing wave or a registered plan
+   */
+  getWave(waveId: string): GenerationWave | undefined {
+    this.pruneExpiredPlans();
+    return this.activeWaves.get(waveId) ?? this.plannedWaves.get(waveId)?.wave;
+  }
+  
+  /**
+   * Replace a planned wave's assignments and re-estimate its context budget
+   */
+  assignAgents(wave: GenerationWave, assignments: AgentAssignment[]): void {
+    wave.agentAssignments = assignments;
+    wave.targetIterations = assignments.length;
+    wave.maxConcurrency = Math.min(assignments.length, 5);
+    wave.contextBudget = this.estimateContextRequirement(wave);
+  }
+  
+  /**
+   * Plain-object view of a monitor whose usage maps survive JSON serialization
+   */
+  static serializeContextMonitor(contextMonitor: ContextMonitor): Record<string, unknown> {
+    return {
+      ...contextMonitor,
+      waveUsage: Object.fromEntries(contextMonitor.waveUsage),
+      agentUsage: Object.fromEntries(contextMonitor.agentUsage)
+    };
   }
   
   /**
@@ -141,7 +353,8 @@ export class WaveManager {
     waveSize: number,
     existingIterations: IterationInfo[],
     sophisticationLevel: SophisticationLevel,
-    outputDirectory: string
+    outputDirectory: string,
+    requeuedIterations: number[]
   ): AgentAssignment[] {
     const assignments: AgentAssignment[] = [];
     const usedDimensions = new Set<string>();
@@ -151,10 +364,18 @@ export class WaveManager {
       iteration.innovationDimensions.forEach(dim => usedDimensions.add(dim));
     });
     
+    // Fill re-queued failed iteration numbers first, then continue after the highest existing iteration
+    const existingNumbers = new Set(existingIterations.map(iteration => iteration.number));
+    const requeued = requeuedIterations.filter(number => !existingNumbers.has(number)).slice(0, waveSize);
+    let nextIterationNumber = Math.max(
+      IterationDiscovery.highestIterationNumber(existingIterations),
+      ...requeuedIterations
+    );
+    
     // Generate assignments for each agent
     for (let i = 0; i < waveSize; i++) {
       const agentId = `agent_${crypto.randomUUID().substring(0, 8)}`;
-      const iterationNumber = existingIterations.length + i + 1;
+      const iterationNumber = i < requeued.length ? requeued[i] : ++nextIterationNumber;
       
       // Select unique innovation focus
       const availableDimensions = specification.innovationDimensions.filter(
@@ -219,10 +440,18 @@ export class WaveManager {
     }
   }
   
-  private estimateContextRequirement(waveSize: number, sophisticationLevel: SophisticationLevel): number {
-    const baseRequirement = 5000; // Base context per agent
-    const sophisticationMultiplier = sophisticationLevel.level * 1.5;
-    return Math.round(waveSize * baseRequirement * sophisticationMultiplier);
+  private estimateContextRequirement(wave: GenerationWave): number {
+    return wave.agentAssignments.reduce((total, assignment) => total + this.estimateAgentRequirement(assignment, wave), 0);
+  }
+  
+  private estimateAgentRequirement(assignment: AgentAssignment, wave: GenerationWave): number {
+    const prompt = this.agentCoordinator.generateAgentPrompt(assignment, wave);
+    return this.estimatePromptTokens(prompt) + this.estimateCompletionTokens(wave);
+  }
+  
+  private estimateCompletionTokens(wave: GenerationWave): number {
+    // Prompt tokens are counted exactly; completions are expected to grow with sophistication
+    return COMPLETION_TOKENS_PER_LEVEL * wave.sophisticationLevel.level;
   }
   
   private estimateWaveDuration(waveSize: number, sophisticationLevel: SophisticationLevel): number {
@@ -231,68 +460,35 @@ export class WaveManager {
     return Math.round(baseTime * sophisticationMultiplier);
   }
   
-  private createAgentBatches(assignments: AgentAssignment[], maxConcurrency: number): AgentAssignment[][] {
-    const batches: AgentAssignment[][] = [];
-    for (let i = 0; i < assignments.length; i += maxConcurrency) {
-      batches.push(assignments.slice(i, i + maxConcurrency));
+  private pruneExpiredPlans(): void {
+    const cutoff = Date.now() - PLANNED_WAVE_TTL_MS;
+    for (const [waveId, { plannedAt }] of this.plannedWaves) {
+      if (plannedAt < cutoff) this.plannedWaves.delete(waveId);
     }
-    return batches;
   }
   
-  private async executeBatch(batch: AgentAssignment[], wave: GenerationWave): Promise<WaveResult[]> {
-    const promises = batch.map(assignment => this.executeAgent(assignment, wave));
-    return Promise.all(promises);
+  private reserveContext(waveId: string, contextMonitor: ContextMonitor, tokens: number): void {
+    this.waveReservations.set(waveId, { monitor: contextMonitor, tokens });
+    contextMonitor.reservedCapacity += tokens;
+    this.refreshContextMonitor(contextMonitor);
   }
   
-  private async executeAgent(assignment: AgentAssignment, wave: GenerationWave): Promise<WaveResult> {
-    const startTime = Date.now();
-    
-    try {
-      // This would integrate with the Task tool or similar agent execution system
-      // For now, we simulate the execution
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const outputPath = `${wave.outputDirectory}/${wave.specification.outputRequirements.namingPattern.replace('{number}', assignment.iterationNumber.toString())}`;
-      
-      return {
-        agentId: assignment.agentId,
-        iterationNumber: assignment.iterationNumber,
-        success: true,
-        outputPath,
-        qualityScore: 85 + Math.random() * 15, // Simulated quality score
-        uniquenessScore: 80 + Math.random() * 20, // Simulated uniqueness score
-        completionTime: Date.now() - startTime
-      };
-    } catch (error) {
-      return {
-        agentId: assignment.agentId,
-        iterationNumber: assignment.iterationNumber,
-        success: false,
-        errorMessage: `Agent execution failed: ${error}`,
-        completionTime: Date.now() - startTime
-      };
+  private releaseContext(waveId: string): void {
+    const reservation = this.waveReservations.get(waveId);
+    if (reservation) {
+      reservation.monitor.reservedCapacity -= reservation.tokens;
+      this.waveReservations.delete(waveId);
+      this.refreshContextMonitor(reservation.monitor);
     }
   }
   
-  private getNextWaveNumber(): number {
-    const maxWaveNumber = Math.max(...Array.from(this.activeWaves.values()).map(w => w.waveNumber), 0);
-    return maxWaveNumber + 1;
-  }
-  
-  private updateContextUsage(waveId: string, usage: number): void {
-    this.contextMonitor.waveUsage.set(waveId, usage);
-    this.contextMonitor.usedCapacity += usage;
-    this.contextMonitor.remainingCapacity = this.contextMonitor.totalCapacity - this.contextMonitor.usedCapacity;
-    this.contextMonitor.utilizationPercentage = (this.contextMonitor.usedCapacity / this.contextMonitor.totalCapacity) * 100;
-  }
-  
-  private releaseContextUsage(waveId: string): void {
-    const usage = this.contextMonitor.waveUsage.get(waveId) || 0;
-    this.contextMonitor.usedCapacity -= usage;
-    this.contextMonitor.waveUsage.delete(waveId);
-    this.contextMonitor.remainingCapacity = this.contextMonitor.totalCapacity - this.contextMonitor.usedCapacity;
-    this.contextMonitor.utilizationPercentage = (this.contextMonitor.usedCapacity / this.contextMonitor.totalCapacity) * 100;
-    this.activeWaves.delete(waveId);
+  private refreshContextMonitor(contextMonitor: ContextMonitor): void {
+    // Utilization reflects consumed tokens only; reservations just shrink what remains available
+    contextMonitor.remainingCapacity = Math.max(
+      0,
+      contextMonitor.totalCapacity - contextMonitor.usedCapacity - contextMonitor.reservedCapacity
+    );
+    contextMonitor.utilizationPercentage = (contextMonitor.usedCapacity / contextMonitor.totalCapacity) * 100;
   }
   
   // Helper methods for generating context and directives
@@ -0,0 +1,90 @@
+// Iteration Discovery Tests - Seeding IterationInfo from an Output Directory
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { UniversalSpecification } from '../types/index.js';
+import { loadExampleSpecification } from '../testing/fixtures.js';
+import { IterationDiscovery } from './iterationDiscovery.js';
+import { IterationManifestStore } from './iterationManifest.js';
+
+function withPattern(namingPattern: string): UniversalSpecification {
+  const specification = loadExampleSpecification();
+  return { ...specification, outputRequirements: { ...specification.outputRequirements, namingPattern } };
+}
+
+describe('IterationDiscovery', () => {
+  let directory: string;
+  
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'iteration-discovery-'));
+  });
+  
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+  
+  it('returns nothing for a directory that does not exist', async () => {
+    expect(await IterationDiscovery.discover(join(directory, 'missing'), loadExampleSpecification())).toEqual([]);
+  });
+  
+  it('finds files matching the naming pattern in numeric order', async () => {
+    await writeFile(join(directory, 'SearchComponent_10.tsx'), '// Voice search\nexport {};\n');
+    await writeFile(join(directory, 'SearchComponent_2.tsx'), '\n\n/** Faceted filters */\n');
+    await writeFile(join(directory, 'SearchComponent_3.tsx.tmp'), 'partial');
+    await writeFile(join(directory, 'notes.md'), '# Notes');
+    
+    const iterations = await IterationDiscovery.discover(directory, loadExampleSpecification());
+    
+    expect(iterations).toEqual([
+      { number: 2, filePath: join(directory, 'SearchComponent_2.tsx'), summary: 'Faceted filters */', innovationDimensions: [], qualityScore: null, uniquenessScore: 0 },
+      { number: 10, filePath: join(directory, 'SearchComponent_10.tsx'), summary: 'Voice search', innovationDimensions: [], qualityScore: null, uniquenessScore: 0 }
+    ]);
+    expect(IterationDiscovery.highestIterationNumber(iterations)).toBe(10);
+    expect(IterationDiscovery.highestIterationNumber([])).toBe(0);
+  });
+  
+  it('reads dimensions from the pattern and escapes literal characters', async () => {
+    await writeFile(join(directory, 'visual_design.3.(L2).md'), 'Layout');
+    await writeFile(join(directory, 'visual_design.3xL2).md'), 'Not a match');
+    
+    const [iteration, ...rest] = await IterationDiscovery.discover(directory, withPattern('{dimension}.{number}.(L{level}).md'));
+    
+    expect(rest).toEqual([]);
+    expect(iteration).toMatchObject({ number: 3, innovationDimensions: ['visual_design'], summary: 'Layout' });
+  });
+  
+  it('prefers manifest entries over summaries derived from content', async () => {
+    await writeFile(join(directory, 'SearchComponent_1.tsx'), '// From content\n');
+    await IterationManifestStore.update(directory, manifest => {
+      manifest.iterations.push({
+        iteration: { number: 1, filePath: 'elsewhere.tsx', summary: 'From manifest', innovationDimensions: ['a11y'], qualityScore: 80, uniquenessScore: 90 },
+        waveId: 'wave',
+        waveNumber: 1,
+        agentId: 'agent',
+        sophisticationLevel: { level: 1, name: 'Basic' },
+        uniqueDirective: { innovationFocus: 'a11y', creativeBoundary: '', differentiationStrategy: '' },
+        contentHash: 'hash',
+        createdAt: '',
+        updatedAt: ''
+      });
+    });
+    
+    expect(await IterationDiscovery.discover(directory, loadExampleSpecification())).toEqual([
+      { number: 1, filePath: join(directory, 'SearchComponent_1.tsx'), summary: 'From manifest', innovationDimensions: ['a11y'], qualityScore: 80, uniquenessScore: 90 }
+    ]);
+  });
+  
+  it('requires {number} in the naming pattern', async () => {
+    await expect(IterationDiscovery.discover(directory, withPattern('component.tsx')))
+      .rejects.toThrow('must contain {number}');
+  });
+  
+  it('truncates long summaries', () => {
+    const summary = IterationDiscovery.summarize(`# ${'x'.repeat(200)}`, 'fallback');
+    
+    expect(summary).toHaveLength(160);
+    expect(summary.endsWith('...')).toBe(true);
+    expect(IterationDiscovery.summarize('   \n', 'fallback')).toBe('fallback');
+  });
+});
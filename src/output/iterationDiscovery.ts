@@ -0,0 +1,111 @@
+// Iteration Discovery - Rebuild IterationInfo from Existing Output
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { IterationInfo, UniversalSpecification } from '../types/index.js';
+import { IterationManifestStore } from './iterationManifest.js';
+
+const SUMMARY_MAX_LENGTH = 160;
+
+export class IterationDiscovery {
+  /**
+   * Scan an output directory for iterations matching the specification's naming pattern
+   *
+   * Manifest entries take precedence; files without an entry are summarized from their content.
+   */
+  static async discover(outputDirectory: string, specification: UniversalSpecification): Promise<IterationInfo[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(outputDirectory);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+    
+    const manifest = await IterationManifestStore.read(outputDirectory);
+    const manifestByNumber = new Map<number, IterationInfo>(
+      (manifest?.iterations || []).map(entry => [entry.iteration.number, entry.iteration])
+    );
+    
+    const matcher = this.buildMatcher(specification.outputRequirements.namingPattern);
+    const discovered = new Map<number, IterationInfo>();
+    
+    for (const fileName of fileNames) {
+      const match = matcher.exec(fileName);
+      if (!match?.groups) continue;
+      
+      const number = parseInt(match.groups.number, 10);
+      const filePath = join(outputDirectory, fileName);
+      const recorded = manifestByNumber.get(number);
+      
+      if (recorded) {
+        discovered.set(number, { ...recorded, filePath });
+        continue;
+      }
+      
+      const content = await readFile(filePath, 'utf8').catch(() => '');
+      discovered.set(number, {
+        number,
+        filePath,
+        summary: this.summarize(content, fileName),
+        innovationDimensions: match.groups.dimension ? [match.groups.dimension] : [],
+        qualityScore: null,
+        uniquenessScore: 0
+      });
+    }
+    
+    return Array.from(discovered.values()).sort((a, b) => a.number - b.number);
+  }
+  
+  /**
+   * Highest iteration number among existing iterations (0 when there are none)
+   */
+  static highestIterationNumber(iterations: IterationInfo[]): number {
+    return Math.max(0, ...iterations.map(iteration => iteration.number));
+  }
+  
+  /**
+   * Convert a naming pattern into a file name matcher with named groups
+   */
+  private static buildMatcher(namingPattern: string): RegExp {
+    const groups: Record<string, string> = {
+      number: '(?<number>\\d+)',
+      dimension: '(?<dimension>[A-Za-z0-9._-]+?)',
+      level: '\\d+',
+      wave: '\\d+'
+    };
+    const seen = new Set<string>();
+    
+    const source = namingPattern
+      .split(/(\{(?:number|dimension|level|wave)\})/)
+      .map(part => {
+        const key = part.match(/^\{(\w+)\}$/)?.[1];
+        if (key && groups[key]) {
+          // Repeated placeholders must not redeclare named groups
+          const pattern = seen.has(key) ? groups[key].replace(/\?<\w+>/, '') : groups[key];
+          seen.add(key);
+          return pattern;
+        }
+        return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    
+    if (!seen.has('number')) {
+      throw new Error(`Naming pattern "${namingPattern}" must contain {number} to discover iterations`);
+    }
+    return new RegExp(`^${source}$`);
+  }
+  
+  /**
+   * Derive a one-line summary from artifact content
+   */
+  static summarize(content: string, fallback: string): string {
+    const firstLine = content
+      .split('\n')
+      .map(line => line.replace(/^[#/*\s-]+/, '').trim())
+      .find(line => line.length > 0);
+    
+    const summary = firstLine || fallback;
+    return summary.length > SUMMARY_MAX_LENGTH ? `${summary.substring(0, SUMMARY_MAX_LENGTH - 3)}...` : summary;
+  }
+}
@@ -0,0 +1,74 @@
+// Iteration Manifest Tests - Recording Iterations per Output Directory
+
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { IterationManifestEntry } from '../types/index.js';
+import { loadExampleSpecification } from '../testing/fixtures.js';
+import { IterationManifestStore, MANIFEST_FILE_NAME, MANIFEST_VERSION } from './iterationManifest.js';
+
+const specification = loadExampleSpecification();
+
+function entry(number: number, summary = `Iteration ${number}`): Omit<IterationManifestEntry, 'createdAt' | 'updatedAt'> {
+  return {
+    iteration: { number, filePath: `SearchComponent_${number}.tsx`, summary, innovationDimensions: [], qualityScore: 80, uniquenessScore: 90 },
+    waveId: 'wave-1',
+    waveNumber: 1,
+    agentId: `agent-${number}`,
+    sophisticationLevel: { level: 1, name: 'Basic' },
+    uniqueDirective: { innovationFocus: 'a11y', creativeBoundary: '', differentiationStrategy: '' },
+    contentHash: 'hash'
+  };
+}
+
+describe('IterationManifestStore', () => {
+  let directory: string;
+  
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'iteration-manifest-'));
+  });
+  
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+  
+  it('returns undefined when the directory has no manifest', async () => {
+    expect(await IterationManifestStore.read(directory)).toBeUndefined();
+  });
+  
+  it('creates the manifest and keeps entries sorted by iteration number', async () => {
+    await IterationManifestStore.record(directory, specification, entry(3));
+    await IterationManifestStore.record(directory, specification, entry(1));
+    
+    const manifest = await IterationManifestStore.read(directory);
+    
+    expect(manifest).toMatchObject({ version: MANIFEST_VERSION, specificationId: specification.id, specificationName: specification.name });
+    expect(manifest!.iterations.map(({ iteration }) => iteration.number)).toEqual([1, 3]);
+    expect(await readdir(directory)).toEqual([MANIFEST_FILE_NAME]);
+  });
+  
+  it('replaces the entry of a recorded iteration and keeps its creation time', async () => {
+    const first = await IterationManifestStore.record(directory, specification, entry(1, 'First'));
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await IterationManifestStore.record(directory, specification, entry(1, 'Second'));
+    
+    const { iterations } = (await IterationManifestStore.read(directory))!;
+    
+    expect(iterations).toHaveLength(1);
+    expect(iterations[0].iteration.summary).toBe('Second');
+    expect(second.createdAt).toBe(first.createdAt);
+    expect(second.updatedAt > first.updatedAt).toBe(true);
+  });
+  
+  it('loses no entries when agents record concurrently', async () => {
+    await Promise.all(Array.from({ length: 10 }, (_, index) => IterationManifestStore.record(directory, specification, entry(index + 1))));
+    
+    expect((await IterationManifestStore.read(directory))!.iterations).toHaveLength(10);
+  });
+  
+  it('rejects a manifest without an iterations array', async () => {
+    await writeFile(join(directory, MANIFEST_FILE_NAME), '{"version": 1}');
+    
+    await expect(IterationManifestStore.read(directory)).rejects.toThrow('missing iterations array');
+  });
+});
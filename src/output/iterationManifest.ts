@@ -0,0 +1,112 @@
+// Iteration Manifest - Machine-Readable Record of Iterations per Output Directory
+
+import { mkdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { IterationManifest, IterationManifestEntry, UniversalSpecification } from '../types/index.js';
+
+export const MANIFEST_FILE_NAME = 'iterations.json';
+export const MANIFEST_VERSION = 1;
+
+export class IterationManifestStore {
+  // Serializes read-modify-write cycles per output directory
+  private static pendingUpdates: Map<string, Promise<unknown>> = new Map();
+  
+  /**
+   * Get the manifest location for an output directory
+   */
+  static manifestPath(outputDirectory: string): string {
+    return join(outputDirectory, MANIFEST_FILE_NAME);
+  }
+  
+  /**
+   * Read the manifest of an output directory, or undefined when none exists
+   */
+  static async read(outputDirectory: string): Promise<IterationManifest | undefined> {
+    let raw: string;
+    try {
+      raw = await readFile(this.manifestPath(outputDirectory), 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+    
+    const manifest = JSON.parse(raw) as IterationManifest;
+    if (!Array.isArray(manifest?.iterations)) {
+      throw new Error(`Malformed iteration manifest in ${outputDirectory}: missing iterations array`);
+    }
+    return manifest;
+  }
+  
+  /**
+   * Insert or replace the entry for an iteration number
+   */
+  static async record(
+    outputDirectory: string,
+    specification: UniversalSpecification,
+    entry: Omit<IterationManifestEntry, 'createdAt' | 'updatedAt'>
+  ): Promise<IterationManifestEntry> {
+    return this.update(outputDirectory, manifest => {
+      const now = new Date().toISOString();
+      const index = manifest.iterations.findIndex(existing => existing.iteration.number === entry.iteration.number);
+      const recorded: IterationManifestEntry = {
+        ...entry,
+        createdAt: index >= 0 ? manifest.iterations[index].createdAt : now,
+        updatedAt: now
+      };
+      
+      if (index >= 0) {
+        manifest.iterations[index] = recorded;
+      } else {
+        manifest.iterations.push(recorded);
+        manifest.iterations.sort((a, b) => a.iteration.number - b.iteration.number);
+      }
+      
+      manifest.specificationId = specification.id;
+      manifest.specificationName = specification.name;
+      return recorded;
+    });
+  }
+  
+  /**
+   * Apply a mutation to the manifest and persist it atomically
+   */
+  static async update<T>(outputDirectory: string, mutate: (manifest: IterationManifest) => T): Promise<T> {
+    const previous = this.pendingUpdates.get(outputDirectory) || Promise.resolve();
+    
+    const next = previous.catch(() => undefined).then(async () => {
+      const manifest: IterationManifest = await this.read(outputDirectory) || {
+        version: MANIFEST_VERSION,
+        updatedAt: new Date().toISOString(),
+        iterations: []
+      };
+      
+      const result = mutate(manifest);
+      manifest.updatedAt = new Date().toISOString();
+      await this.writeAtomically(outputDirectory, manifest);
+      return result;
+    });
+    
+    this.pendingUpdates.set(outputDirectory, next);
+    try {
+      return await next;
+    } finally {
+      if (this.pendingUpdates.get(outputDirectory) === next) {
+        this.pendingUpdates.delete(outputDirectory);
+      }
+    }
+  }
+  
+  private static async writeAtomically(outputDirectory: string, manifest: IterationManifest): Promise<void> {
+    await mkdir(outputDirectory, { recursive: true });
+    const target = this.manifestPath(outputDirectory);
+    const tempPath = `${target}.${process.pid}.${Date.now()}.tmp`;
+    
+    await writeFile(tempPath, JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+    try {
+      await rename(tempPath, target);
+    } catch (error) {
+      await unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+// Iteration Output Writer Tests - Naming and Overwrite Protection
+
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NonRetryableError } from '../agents/retryPolicy.js';
+import { OutputWriter } from './outputWriter.js';
+
+describe('OutputWriter', () => {
+  let directory: string;
+  
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'output-writer-'));
+  });
+  
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+  
+  it('refuses to overwrite an existing iteration', async () => {
+    const writer = new OutputWriter();
+    const outputPath = join(directory, 'iteration_1.md');
+    await writer.write(outputPath, 'first');
+    
+    const rewrite = writer.write(outputPath, 'second');
+    await expect(rewrite).rejects.toThrow(`Refusing to overwrite existing iteration ${outputPath}`);
+    await expect(rewrite).rejects.toBeInstanceOf(NonRetryableError);
+    expect(await readFile(outputPath, 'utf8')).toBe('first');
+    expect(await readdir(directory)).toEqual(['iteration_1.md']);
+  });
+  
+  it('accepts rewriting identical content', async () => {
+    const writer = new OutputWriter();
+    const outputPath = join(directory, 'iteration_1.md');
+    await writer.write(outputPath, 'same');
+    
+    await expect(writer.write(outputPath, 'same')).resolves.toBe(outputPath);
+  });
+  
+  it('replaces an existing iteration when overwrite is set', async () => {
+    const writer = new OutputWriter();
+    const outputPath = join(directory, 'nested', 'iteration_1.md');
+    await writer.write(outputPath, 'first');
+    await writer.write(outputPath, 'second', { overwrite: true });
+    
+    expect(await readFile(outputPath, 'utf8')).toBe('second');
+    expect(await readdir(join(directory, 'nested'))).toEqual(['iteration_1.md']);
+  });
+  
+  it('lets only one of two concurrent writers create an iteration', async () => {
+    const writer = new OutputWriter();
+    const outputPath = join(directory, 'iteration_1.md');
+    const outcomes = await Promise.allSettled([writer.write(outputPath, 'a'), writer.write(outputPath, 'b')]);
+    
+    expect(outcomes.filter(outcome => outcome.status === 'fulfilled')).toHaveLength(1);
+    expect(await readdir(directory)).toEqual(['iteration_1.md']);
+  });
+  
+  it('substitutes naming placeholders', () => {
+    expect(OutputWriter.resolveFileName('{wave}/{dimension}_{number}_L{level}.md', {
+      number: 7,
+      dimension: 'visual design',
+      level: 2,
+      wave: 3
+    })).toBe('3/visual_design_7_L2.md');
+    expect(() => OutputWriter.resolveFileName('iteration_{wave}.md', { number: 1 }))
+      .toThrow('uses {wave} but no value is available');
+  });
+});
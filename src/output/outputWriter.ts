@@ -0,0 +1,104 @@
+// Iteration Output Writer - Artifact Naming and Atomic Persistence
+
+import { link, mkdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { dirname, join, basename } from 'node:path';
+import { AgentAssignment, GenerationWave } from '../types/index.js';
+import { NonRetryableError } from '../agents/retryPolicy.js';
+
+export interface NamingVariables {
+  number: number;
+  dimension?: string;
+  level?: number;
+  wave?: number;
+}
+
+export interface WriteOptions {
+  overwrite?: boolean;
+}
+
+export class OutputWriter {
+  /**
+   * Substitute naming placeholders ({number}, {dimension}, {level}, {wave}) in a pattern
+   */
+  static resolveFileName(namingPattern: string, variables: NamingVariables): string {
+    const values: Record<string, string | undefined> = {
+      number: variables.number.toString(),
+      dimension: variables.dimension ? this.sanitizeSegment(variables.dimension) : undefined,
+      level: variables.level?.toString(),
+      wave: variables.wave?.toString()
+    };
+    
+    return namingPattern.replace(/\{(number|dimension|level|wave)\}/g, (placeholder, key) => {
+      const value = values[key];
+      if (value === undefined) {
+        throw new NonRetryableError(`Naming pattern "${namingPattern}" uses ${placeholder} but no value is available`);
+      }
+      return value;
+    });
+  }
+  
+  /**
+   * Compute the artifact path for an agent assignment within its wave
+   */
+  static resolveOutputPath(assignment: AgentAssignment, wave: GenerationWave): string {
+    const fileName = this.resolveFileName(wave.specification.outputRequirements.namingPattern, {
+      number: assignment.iterationNumber,
+      dimension: assignment.uniqueDirective.innovationFocus,
+      level: wave.sophisticationLevel.level,
+      wave: wave.waveNumber
+    });
+    return join(wave.outputDirectory, fileName);
+  }
+  
+  /**
+   * Atomically write an iteration artifact via temp-file-and-rename
+   *
+   * Existing iterations are never replaced unless overwrite is set; rewriting
+   * identical content (e.g. a command that already wrote the file) is a no-op.
+   */
+  async write(outputPath: string, content: string, options: WriteOptions = {}): Promise<string> {
+    await mkdir(dirname(outputPath), { recursive: true });
+    
+    const existing = await readFile(outputPath, 'utf8').catch(() => undefined);
+    if (existing !== undefined) {
+      if (existing === content) return outputPath;
+      if (!options.overwrite) {
+        throw new NonRetryableError(`Refusing to overwrite existing iteration ${outputPath}`);
+      }
+    }
+    
+    const tempPath = join(dirname(outputPath), `.${basename(outputPath)}.${process.pid}.${Date.now()}.tmp`);
+    await writeFile(tempPath, content, 'utf8');
+    
+    try {
+      if (options.overwrite) {
+        await rename(tempPath, outputPath);
+      } else {
+        // link() fails with EEXIST if another writer created the file meanwhile
+        await link(tempPath, outputPath);
+        await unlink(tempPath);
+      }
+    } catch (error: any) {
+      await unlink(tempPath).catch(() => undefined);
+      if (error?.code === 'EEXIST') {
+        throw new NonRetryableError(`Refusing to overwrite existing iteration ${outputPath}`);
+      }
+      throw error;
+    }
+    
+    return outputPath;
+  }
+  
+  /**
+   * Remove an artifact that must not count as an iteration, e.g. one that failed validation
+   */
+  async remove(outputPath: string): Promise<void> {
+    await unlink(outputPath).catch((error: any) => {
+      if (error?.code !== 'ENOENT') throw error;
+    });
+  }
+  
+  private static sanitizeSegment(value: string): string {
+    return value.trim().replace(/[^A-Za-z0-9._-]+/g, '_');
+  }
+}
@@ -0,0 +1,45 @@
+// Prompt Preview Writer - Dry-Run Prompt Persistence for Review
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { PromptPreview, PromptPreviewWave } from '../types/index.js';
+
+export class PromptPreviewWriter {
+  /**
+   * Summarize previewed waves into run totals
+   */
+  static summarize(waves: PromptPreviewWave[]): PromptPreview {
+    return {
+      waves,
+      totalPrompts: waves.reduce((total, wave) => total + wave.agents.length, 0),
+      totalEstimatedTokens: waves.reduce((total, wave) => total + wave.estimatedTokens, 0),
+      totalEstimatedContext: waves.reduce((total, wave) => total + wave.estimatedContext, 0)
+    };
+  }
+  
+  /**
+   * Write each prompt to wave-<n>/<iteration>_<agentId>.md plus a preview.json index
+   *
+   * Agents in the returned preview reference their prompt file instead of repeating the text.
+   */
+  static async write(previewDirectory: string, preview: PromptPreview): Promise<PromptPreview> {
+    const waves: PromptPreviewWave[] = [];
+    
+    for (const wave of preview.waves) {
+      const waveDirectory = `wave-${wave.waveNumber}`;
+      await mkdir(join(previewDirectory, waveDirectory), { recursive: true });
+      
+      const agents = [];
+      for (const { prompt, ...agent } of wave.agents) {
+        const promptFile = join(waveDirectory, `${agent.iterationNumber}_${agent.agentId}.md`);
+        await writeFile(join(previewDirectory, promptFile), prompt ?? '', 'utf8');
+        agents.push({ ...agent, promptFile });
+      }
+      waves.push({ ...wave, agents });
+    }
+    
+    const written: PromptPreview = { ...preview, waves, previewDirectory };
+    await writeFile(join(previewDirectory, 'preview.json'), JSON.stringify(written, null, 2), 'utf8');
+    return written;
+  }
+}
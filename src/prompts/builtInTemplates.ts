@@ -0,0 +1,254 @@
+// Built-In Prompt Templates - Default Agent Prompts per Domain Category
+
+import { SpecificationDomain, UniversalSpecification } from '../types/index.js';
+
+export type DomainCategory = SpecificationDomain['category'];
+
+export interface ResolvedPromptTemplate {
+  template: string;
+  partials: Record<string, string>;
+}
+
+// Shared section partials; specifications may override any of them via promptPartials
+export const BUILT_IN_PARTIALS: Record<string, string> = {
+  header: `# Agent Task Assignment - Iteration {{iteration.number}}
+
+You are Sub-Agent {{agent.id}} generating iteration {{iteration.number}} for "{{spec.name}}".`,
+
+  specificationContext: `## SPECIFICATION CONTEXT
+- **Domain**: {{domain.category}} - {{domain.subcategory}}
+- **Target Audience**: {{domain.targetAudience}}
+- **Complexity Level**: {{domain.complexity}}
+- **Output Format**: {{output.format}}`,
+
+  assignment: `## YOUR UNIQUE ASSIGNMENT
+- **Innovation Focus**: {{directive.innovationFocus}}
+- **Creative Boundary**: {{directive.creativeBoundary}}
+- **Differentiation Strategy**: {{directive.differentiationStrategy}}
+- **Target Audience**: {{directive.targetAudience}}`,
+
+  taskContext: `## TASK CONTEXT
+**Specification Summary**: {{task.specificationSummary}}
+
+**Domain Context**: {{task.domainContext}}
+
+**Goal Statement**: {{task.goalStatement}}
+
+**Existing Work Summary**:
+{{task.existingWork}}`,
+
+  qualityStandards: `## QUALITY STANDARDS
+
+### Functional Requirements
+{{quality.functional}}
+
+### Design Requirements
+{{quality.design}}
+
+### Performance Requirements
+{{quality.performance}}
+
+### Uniqueness Requirements
+{{quality.uniqueness}}
+
+### Domain-Specific Requirements
+{{quality.domainSpecific}}`,
+
+  specificationDetails: `## SPECIFICATION DETAILS
+
+**Success Criteria**:
+{{spec.successCriteria}}
+
+**Innovation Dimensions Available**:
+{{spec.innovationDimensions}}
+
+**Constraints**:
+{{spec.constraints}}
+
+**Evolution Pattern**: {{spec.evolutionPattern}}
+**Progression Strategy**: {{spec.progressionStrategy}}`,
+
+  outputRequirements: `## OUTPUT REQUIREMENTS
+
+**Format**: {{output.format}}
+**Structure**: {{output.structure}}
+**Output Name**: {{output.fileName}}
+
+**Quality Standards**:
+{{output.qualityStandards}}`,
+
+  executionInstructions: `## EXECUTION INSTRUCTIONS
+
+1. **Analyze Requirements**: Understand the specification and your unique creative assignment
+2. **Review Existing Work**: Study existing iterations to ensure your output is genuinely unique
+3. **Design Solution**: Plan your approach focusing on your assigned innovation dimension
+4. **Implement**: Create the output following all quality standards and requirements
+5. **Validate**: Ensure your output meets functional requirements and demonstrates clear innovation
+6. **Document**: Provide clear explanation of your innovation and design decisions`,
+
+  successFactors: `## CRITICAL SUCCESS FACTORS
+
+- **Uniqueness**: Your iteration must be distinctly different from existing work
+- **Quality**: Must meet or exceed the sophistication level requirements
+- **Compliance**: Must follow all specification requirements and constraints
+- **Innovation**: Must genuinely explore and advance your assigned innovation dimension
+- **Functionality**: Must be complete, working, and meet all functional requirements`,
+
+  deliverable: `## DELIVERABLE
+
+Deliver {{output.fileName}} as {{output.format}} output structured as: {{output.structure}}. It must demonstrate clear innovation in {{directive.innovationFocus}} while meeting all quality and functional requirements.`,
+
+  closing: `Begin execution immediately and focus on delivering exceptional results that advance the overall project goals.`
+};
+
+const DEFAULT_TEMPLATE = `{{> header}}
+
+{{> specificationContext}}
+
+{{> assignment}}
+
+{{> taskContext}}
+
+{{> qualityStandards}}
+
+{{> specificationDetails}}
+
+{{> outputRequirements}}
+
+{{> executionInstructions}}
+
+{{> successFactors}}
+
+{{> deliverable}}
+
+{{> closing}}`;
+
+// Research-style work leads with the question and evidence rather than an implementation plan
+const FINDINGS_TEMPLATE = `{{> header}}
+
+{{> specificationContext}}
+
+{{> assignment}}
+
+{{> taskContext}}
+
+{{> specificationDetails}}
+
+{{> qualityStandards}}
+
+{{> outputRequirements}}
+
+{{> executionInstructions}}
+
+{{> successFactors}}
+
+{{> deliverable}}
+
+{{> closing}}`;
+
+// Category-specific partial overrides layered over the shared partials
+const CATEGORY_PARTIALS: Partial<Record<DomainCategory, Record<string, string>>> = {
+  UI: {
+    executionInstructions: `## EXECUTION INSTRUCTIONS
+
+1. **Analyze Requirements**: Understand the specification and your unique creative assignment
+2. **Review Existing Work**: Study existing iterations so your interface is genuinely different
+3. **Design Interaction**: Sketch the states, interactions and responsive behavior around your innovation focus
+4. **Implement**: Build the component with accessible markup, typed props and self-contained styling
+5. **Validate**: Check keyboard navigation, screen reader labels and layout at small and large widths
+6. **Document**: Explain your innovation and design decisions in a brief header comment`,
+    deliverable: `## DELIVERABLE
+
+Deliver {{output.fileName}} as a complete, self-contained {{output.format}} implementation structured as: {{output.structure}}. The interface must demonstrate clear innovation in {{directive.innovationFocus}} while meeting all quality, accessibility and functional requirements.`
+  },
+  CODE: {
+    executionInstructions: `## EXECUTION INSTRUCTIONS
+
+1. **Analyze Requirements**: Understand the specification, inputs, outputs and edge cases
+2. **Review Existing Work**: Study existing iterations so your approach is genuinely different
+3. **Design Solution**: Choose data structures and algorithms that advance your innovation focus
+4. **Implement**: Write complete, compilable code without placeholders or TODOs
+5. **Validate**: Reason through edge cases, error handling and complexity
+6. **Document**: Explain your innovation and design decisions in concise comments`,
+    deliverable: `## DELIVERABLE
+
+Deliver {{output.fileName}} as complete, working {{output.format}} code structured as: {{output.structure}}. It must demonstrate clear innovation in {{directive.innovationFocus}} while meeting all quality and functional requirements. Return only the code.`
+  },
+  DOCUMENTATION: {
+    executionInstructions: `## EXECUTION INSTRUCTIONS
+
+1. **Analyze Requirements**: Understand the audience, scope and specification
+2. **Review Existing Work**: Study existing iterations so your document covers new ground
+3. **Outline**: Plan a clear heading structure around your innovation focus
+4. **Write**: Produce complete sections with accurate, runnable examples
+5. **Validate**: Check that every section is complete and examples are consistent
+6. **Polish**: Keep language clear, concise and easy to scan`,
+    deliverable: `## DELIVERABLE
+
+Deliver {{output.fileName}} as a complete {{output.format}} document structured as: {{output.structure}}. It must demonstrate clear innovation in {{directive.innovationFocus}} while meeting all quality requirements.`
+  },
+  RESEARCH: {
+    executionInstructions: `## EXECUTION INSTRUCTIONS
+
+1. **Frame the Question**: State the question your iteration answers within your innovation focus
+2. **Review Existing Work**: Study existing iterations so your findings add new insight
+3. **Gather Evidence**: Collect and cite the evidence your conclusions rest on
+4. **Analyze**: Compare alternatives and weigh limitations honestly
+5. **Conclude**: State findings and their confidence clearly
+6. **Document**: Record method, sources and open questions`,
+    deliverable: `## DELIVERABLE
+
+Deliver {{output.fileName}} as {{output.format}} research output structured as: {{output.structure}}. It must present well-supported findings on {{directive.innovationFocus}} while meeting all quality requirements.`
+  },
+  ANALYSIS: {
+    executionInstructions: `## EXECUTION INSTRUCTIONS
+
+1. **Frame the Analysis**: State what is analyzed and why, within your innovation focus
+2. **Review Existing Work**: Study existing iterations so your analysis adds a new perspective
+3. **Examine**: Work through the data or subject systematically
+4. **Interpret**: Explain patterns, causes and implications
+5. **Validate**: Check assumptions and note limitations
+6. **Recommend**: Close with concrete, prioritized recommendations`,
+    deliverable: `## DELIVERABLE
+
+Deliver {{output.fileName}} as {{output.format}} analysis structured as: {{output.structure}}. It must provide clear insight into {{directive.innovationFocus}} while meeting all quality requirements.`
+  },
+  CONTENT: {
+    deliverable: `## DELIVERABLE
+
+Deliver {{output.fileName}} as finished {{output.format}} content structured as: {{output.structure}}. It must show a distinct take on {{directive.innovationFocus}} for {{directive.targetAudience}} while meeting all quality requirements.`
+  },
+  DESIGN: {
+    deliverable: `## DELIVERABLE
+
+Deliver {{output.fileName}} as a {{output.format}} design artifact structured as: {{output.structure}}. It must demonstrate clear innovation in {{directive.innovationFocus}} and explain the rationale behind key decisions.`
+  }
+};
+
+const CATEGORY_TEMPLATES: Partial<Record<DomainCategory, string>> = {
+  RESEARCH: FINDINGS_TEMPLATE,
+  ANALYSIS: FINDINGS_TEMPLATE
+};
+
+export class PromptTemplates {
+  /**
+   * Built-in template and partials for a domain category
+   */
+  static builtIn(category: DomainCategory): ResolvedPromptTemplate {
+    return {
+      template: CATEGORY_TEMPLATES[category] ?? DEFAULT_TEMPLATE,
+      partials: { ...BUILT_IN_PARTIALS, ...CATEGORY_PARTIALS[category] }
+    };
+  }
+  
+  /**
+   * Template and partials for a specification, with its promptTemplate and promptPartials applied
+   */
+  static resolve(specification: Pick<UniversalSpecification, 'domain' | 'promptTemplate' | 'promptPartials'>): ResolvedPromptTemplate {
+    const builtIn = this.builtIn(specification.domain.category);
+    return {
+      template: specification.promptTemplate ?? builtIn.template,
+      partials: { ...builtIn.partials, ...specification.promptPartials }
+    };
+  }
+}
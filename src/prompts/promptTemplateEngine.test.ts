@@ -0,0 +1,95 @@
+// Prompt Template Engine Tests - Partials, Variables and Validation
+
+import { PromptTemplateEngine, PROMPT_VARIABLES } from './promptTemplateEngine.js';
+import { PromptTemplates } from './builtInTemplates.js';
+import { loadExampleSpecification, planTestWave } from '../testing/fixtures.js';
+
+describe('PromptTemplateEngine.render', () => {
+  it('substitutes every occurrence of a variable', () => {
+    const rendered = PromptTemplateEngine.render(
+      '{{spec.name}} / {{ spec.name }} #{{iteration.number}}',
+      { 'spec.name': 'Search', 'iteration.number': '4' },
+      {}
+    );
+    
+    expect(rendered).toBe('Search / Search #4');
+  });
+  
+  it('expands nested partials with the same variables', () => {
+    const partials = {
+      header: '# {{spec.name}}\n{{> intro}}',
+      intro: 'Iteration {{iteration.number}}'
+    };
+    
+    const rendered = PromptTemplateEngine.render('{{> header}}\n---', { 'spec.name': 'Search', 'iteration.number': '2' }, partials);
+    
+    expect(rendered).toBe('# Search\nIteration 2\n---');
+  });
+  
+  it('allows the same partial to be used more than once', () => {
+    const rendered = PromptTemplateEngine.render('{{> rule}}{{> rule}}', {}, { rule: '--' });
+    
+    expect(rendered).toBe('----');
+  });
+  
+  it('throws on unknown partials, recursive partials and missing variables', () => {
+    expect(() => PromptTemplateEngine.render('{{> missing}}', {}, {}))
+      .toThrow('Unknown prompt partial "missing"');
+    expect(() => PromptTemplateEngine.render('{{> a}}', {}, { a: '{{> b}}', b: '{{> a}}' }))
+      .toThrow('Recursive prompt partial "a > b > a"');
+    expect(() => PromptTemplateEngine.render('{{spec.name}}', {}, {}))
+      .toThrow('Unknown prompt variable "spec.name"');
+  });
+  
+  it('renders the built-in template for a planned wave without leftover tags', () => {
+    const specification = loadExampleSpecification();
+    const wave = planTestWave('/tmp/prompt-template-test', { specification });
+    const assignment = wave.agentAssignments[0];
+    const { template, partials } = PromptTemplates.resolve(specification);
+    
+    const rendered = PromptTemplateEngine.render(template, PromptTemplateEngine.buildVariables(assignment, wave), partials);
+    
+    expect(rendered).not.toContain('{{');
+    expect(rendered).toContain(`iteration ${assignment.iterationNumber}`);
+    expect(rendered).toContain(assignment.uniqueDirective.innovationFocus);
+  });
+});
+
+describe('PromptTemplateEngine.validate', () => {
+  it('accepts the built-in templates', () => {
+    const { template, partials } = PromptTemplates.resolve(loadExampleSpecification());
+    
+    expect(PromptTemplateEngine.validate(template, partials)).toEqual([]);
+  });
+  
+  it('reports unknown variables once per name', () => {
+    const errors = PromptTemplateEngine.validate('{{spec.nmae}} {{spec.nmae}} {{spec.name}}', {});
+    
+    expect(errors).toEqual(['promptTemplate: unknown variable {{spec.nmae}}']);
+  });
+  
+  it('reports problems inside partials under the partial name', () => {
+    const errors = PromptTemplateEngine.validate('{{> header}}', { header: '{{agent.name}}' }, 'custom');
+    
+    expect(errors).toEqual(['partial header: unknown variable {{agent.name}}']);
+  });
+  
+  it('reports unknown and recursive partials', () => {
+    expect(PromptTemplateEngine.validate('{{> missing}}', {}))
+      .toEqual(['promptTemplate: unknown partial {{> missing}}']);
+    expect(PromptTemplateEngine.validate('{{> a}}', { a: '{{> b}}', b: '{{> a}}' }))
+      .toEqual(['partial b: recursive partial a > b > a']);
+  });
+  
+  it('reports malformed tags', () => {
+    expect(PromptTemplateEngine.validate('{{spec name}}', {}))
+      .toEqual(['promptTemplate: malformed tag; use {{variable.name}} or {{> partialName}}']);
+  });
+  
+  it('documents every variable that buildVariables provides', () => {
+    const wave = planTestWave('/tmp/prompt-template-test');
+    const variables = PromptTemplateEngine.buildVariables(wave.agentAssignments[0], wave);
+    
+    expect(Object.keys(variables).sort()).toEqual(Object.keys(PROMPT_VARIABLES).sort());
+  });
+});
@@ -0,0 +1,180 @@
+// Prompt Template Engine - Variable and Partial Rendering for Agent Prompts
+
+import { AgentAssignment, GenerationWave } from '../types/index.js';
+import { OutputWriter } from '../output/outputWriter.js';
+
+export type PromptVariables = Record<string, string>;
+
+// {{variable.name}} or {{> partialName}}
+const TAG_PATTERN = /\{\{\s*(>?)\s*([\w.]+)\s*\}\}/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+// Every variable a template may reference, with a short description for validation messages
+export const PROMPT_VARIABLES: Record<string, string> = {
+  'agent.id': 'Sub-agent identifier',
+  'iteration.number': 'Iteration number being generated',
+  'wave.number': 'Wave number',
+  'spec.name': 'Specification name',
+  'spec.description': 'Specification description',
+  'spec.successCriteria': 'Success criteria as a bullet list',
+  'spec.innovationDimensions': 'Innovation dimensions as a bullet list',
+  'spec.constraints': 'Constraints as a bullet list',
+  'spec.evolutionPattern': 'Evolution pattern',
+  'spec.progressionStrategy': 'Progression strategy',
+  'domain.category': 'Domain category',
+  'domain.subcategory': 'Domain subcategory',
+  'domain.targetAudience': 'Domain target audience',
+  'domain.complexity': 'Domain complexity',
+  'level.number': 'Sophistication level number',
+  'level.name': 'Sophistication level name',
+  'level.description': 'Sophistication level description',
+  'output.format': 'Output format',
+  'output.structure': 'Expected output structure',
+  'output.namingPattern': 'Raw naming pattern',
+  'output.fileName': 'Naming pattern resolved for this iteration',
+  'output.qualityStandards': 'Output quality standards as a bullet list',
+  'directive.innovationFocus': 'Assigned innovation dimension',
+  'directive.creativeBoundary': 'Creative boundary',
+  'directive.differentiationStrategy': 'Differentiation strategy',
+  'directive.targetAudience': 'Directive target audience',
+  'task.specificationSummary': 'Condensed specification summary',
+  'task.domainContext': 'Domain context',
+  'task.goalStatement': 'Goal for this iteration',
+  'task.existingWork': 'Existing iterations as a bullet list',
+  'quality.functional': 'Functional requirements as a bullet list',
+  'quality.design': 'Design requirements as a bullet list',
+  'quality.performance': 'Performance requirements as a bullet list',
+  'quality.uniqueness': 'Uniqueness requirements as a bullet list',
+  'quality.domainSpecific': 'Domain-specific requirements as a bullet list'
+};
+
+export class PromptTemplateEngine {
+  /**
+   * Render a template, expanding partials recursively and substituting every variable occurrence
+   */
+  static render(template: string, variables: PromptVariables, partials: Record<string, string>): string {
+    return this.expand(template, variables, partials, []);
+  }
+  
+  /**
+   * Report unknown variables, unknown or recursive partials and malformed tags
+   */
+  static validate(template: string, partials: Record<string, string>, source: string = 'promptTemplate'): string[] {
+    const errors: string[] = [];
+    this.collectErrors(template, partials, source, [], errors);
+    return Array.from(new Set(errors));
+  }
+  
+  /**
+   * Build the variable set for an agent assignment within its wave
+   */
+  static buildVariables(assignment: AgentAssignment, wave: GenerationWave): PromptVariables {
+    const { uniqueDirective, taskContext, qualityStandards } = assignment;
+    const spec = wave.specification;
+    const level = wave.sophisticationLevel;
+    
+    return {
+      'agent.id': assignment.agentId,
+      'iteration.number': assignment.iterationNumber.toString(),
+      'wave.number': wave.waveNumber.toString(),
+      'spec.name': spec.name,
+      'spec.description': spec.description,
+      'spec.successCriteria': this.bulletList(spec.successCriteria),
+      'spec.innovationDimensions': this.bulletList(spec.innovationDimensions),
+      'spec.constraints': this.bulletList(spec.constraints),
+      'spec.evolutionPattern': spec.evolutionPattern,
+      'spec.progressionStrategy': spec.progressionStrategy,
+      'domain.category': spec.domain.category,
+      'domain.subcategory': spec.domain.subcategory,
+      'domain.targetAudience': spec.domain.targetAudience,
+      'domain.complexity': spec.domain.complexity,
+      'level.number': level.level.toString(),
+      'level.name': level.name,
+      'level.description': level.description,
+      'output.format': spec.outputRequirements.format,
+      'output.structure': spec.outputRequirements.structure,
+      'output.namingPattern': spec.outputRequirements.namingPattern,
+      'output.fileName': OutputWriter.resolveFileName(spec.outputRequirements.namingPattern, {
+        number: assignment.iterationNumber,
+        dimension: uniqueDirective.innovationFocus,
+        level: level.level,
+        wave: wave.waveNumber
+      }),
+      'output.qualityStandards': this.bulletList(spec.outputRequirements.qualityStandards),
+      'directive.innovationFocus': uniqueDirective.innovationFocus,
+      'directive.creativeBoundary': uniqueDirective.creativeBoundary,
+      'directive.differentiationStrategy': uniqueDirective.differentiationStrategy,
+      'directive.targetAudience': uniqueDirective.targetAudience || spec.domain.targetAudience,
+      'task.specificationSummary': taskContext.specificationSummary,
+      'task.domainContext': taskContext.domainContext,
+      'task.goalStatement': taskContext.goalStatement,
+      'task.existingWork': taskContext.existingWork.length > 0
+        ? this.bulletList(taskContext.existingWork)
+        : '- No previous iterations (you are creating the first)',
+      'quality.functional': this.bulletList(qualityStandards.functionalRequirements),
+      'quality.design': this.bulletList(qualityStandards.designRequirements),
+      'quality.performance': this.bulletList(qualityStandards.performanceRequirements),
+      'quality.uniqueness': this.bulletList(qualityStandards.uniquenessRequirements),
+      'quality.domainSpecific': this.bulletList(qualityStandards.domainSpecificRequirements)
+    };
+  }
+  
+  private static expand(
+    template: string,
+    variables: PromptVariables,
+    partials: Record<string, string>,
+    stack: string[]
+  ): string {
+    return template.replace(TAG_PATTERN, (_tag, partialMarker: string, name: string) => {
+      if (partialMarker) {
+        const partial = partials[name];
+        if (partial === undefined) {
+          throw new Error(`Unknown prompt partial "${name}"`);
+        }
+        if (stack.includes(name) || stack.length >= MAX_PARTIAL_DEPTH) {
+          throw new Error(`Recursive prompt partial "${[...stack, name].join(' > ')}"`);
+        }
+        return this.expand(partial, variables, partials, [...stack, name]);
+      }
+      
+      const value = variables[name];
+      if (value === undefined) {
+        throw new Error(`Unknown prompt variable "${name}"`);
+      }
+      return value;
+    });
+  }
+  
+  private static collectErrors(
+    template: string,
+    partials: Record<string, string>,
+    source: string,
+    stack: string[],
+    errors: string[]
+  ): void {
+    // Any "{{" left after removing well-formed tags is malformed
+    if (template.replace(TAG_PATTERN, '').includes('{{')) {
+      errors.push(`${source}: malformed tag; use {{variable.name}} or {{> partialName}}`);
+    }
+    
+    for (const [, partialMarker, name] of template.matchAll(TAG_PATTERN)) {
+      if (!partialMarker) {
+        if (!(name in PROMPT_VARIABLES)) {
+          errors.push(`${source}: unknown variable {{${name}}}`);
+        }
+        continue;
+      }
+      if (partials[name] === undefined) {
+        errors.push(`${source}: unknown partial {{> ${name}}}`);
+      } else if (stack.includes(name)) {
+        errors.push(`${source}: recursive partial ${[...stack, name].join(' > ')}`);
+      } else {
+        this.collectErrors(partials[name], partials, `partial ${name}`, [...stack, name], errors);
+      }
+    }
+  }
+  
+  private static bulletList(items: string[]): string {
+    return items.map(item => `- ${item}`).join('\n');
+  }
+}
@@ -9,13 +9,29 @@ import {
   ListToolsRequestSchema,
   McpError,
   ErrorCode,
-  Tool
+  Tool,
+  ProgressToken
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 
-import { SpecificationParser } from './specifications/parser.js';
+import { SophisticationLevelSchema, SpecificationParser } from './specifications/parser.js';
+import { SpecificationStore } from './specifications/specificationStore.js';
 import { WaveManager } from './orchestration/waveManager.js';
 import { AgentCoordinator } from './agents/coordinator.js';
+import { ExecutorFactory } from './executors/index.js';
+import { IterationCritic } from './validation/critic.js';
+import { IterationDiscovery } from './output/iterationDiscovery.js';
+import { IterationManifestStore } from './output/iterationManifest.js';
+import { PromptPreviewWriter } from './output/promptPreviewWriter.js';
+import { ProgressNotifier } from './orchestration/progressNotifier.js';
+import { RecoveredRun, RunJournal } from './orchestration/runJournal.js';
+import { SophisticationScheduler } from './orchestration/sophisticationScheduler.js';
+import { OrchestrationLoop } from './orchestration/orchestrationLoop.js';
+import { TokenizerFactory } from './context/tokenizer.js';
+import {
+  OrchestrationJob,
+  OrchestrationJobManager
+} from './orchestration/jobManager.js';
 import {
   UniversalSpecification,
   OrchestrationMode,
@@ -25,9 +41,13 @@ import {
   AgentCoordinateParams,
   ContextMonitorParams,
   SpecValidateParams,
-  OrchestrationResult,
+  WaveResult,
   WavePlanResult,
-  ValidationResult
+  ValidationResult,
+  AgentExecutor,
+  AgentAssignment,
+  PromptPreview,
+  PromptPreviewWave
 } from './types/index.js';
 
 // Zod schemas for parameter validation
@@ -38,33 +58,90 @@ const OrchestrationModeSchema = z.object({
   maxWaves: z.number().min(1).optional()
 });
 
+const FailureHandlingSchema = z.object({
+  maxRetries: z.number().min(0).optional(),
+  timeoutMs: z.number().min(1000).optional(),
+  gracefulDegradation: z.boolean().optional()
+});
+
 const InfiniteOrchestrateSchema = z.object({
   specification: z.any(), // Will be validated by SpecificationParser
   outputDirectory: z.string().min(1),
   mode: OrchestrationModeSchema,
+  dryRun: z.boolean().optional(),
+  previewDirectory: z.string().min(1).optional(),
   config: z.object({
     contextThreshold: z.number().min(0.1).max(1.0).optional(),
+    totalCapacity: z.number().int().min(1000).optional(),
     gracefulShutdown: z.boolean().optional(),
     progressiveSophistication: z.boolean().optional(),
-    failureHandling: z.object({
-      maxRetries: z.number().min(0).optional(),
-      timeoutMs: z.number().min(1000).optional(),
-      gracefulDegradation: z.boolean().optional()
-    }).optional()
+    sophisticationSchedule: z.object({
+      wavesPerLevel: z.number().int().min(1).optional(),
+      promotionThreshold: z.number().min(0).max(100).optional()
+    }).optional(),
+    overwriteExisting: z.boolean().optional(),
+    failureHandling: FailureHandlingSchema.optional()
+  }).optional()
+});
+
+const IterationInfoSchema = z.object({
+  number: z.number().int().min(1),
+  filePath: z.string(),
+  summary: z.string(),
+  innovationDimensions: z.array(z.string()),
+  qualityScore: z.number().nullable(),
+  uniquenessScore: z.number(),
+  nearestNeighbor: z.object({
+    iterationNumber: z.number().int().min(1),
+    filePath: z.string(),
+    similarity: z.number().min(0).max(1)
   }).optional()
 });
 
 const WavePlanSchema = z.object({
-  existingWork: z.array(z.any()),
-  sophisticationLevel: z.any(),
-  targetCount: z.number().min(1),
-  contextBudget: z.number().min(1000)
+  specification: z.any().optional(), // Will be validated by SpecificationParser
+  specificationId: z.string().uuid().optional(),
+  outputDirectory: z.string().min(1),
+  existingWork: z.array(IterationInfoSchema).optional(),
+  sophisticationLevel: z.union([z.number().int().min(1), SophisticationLevelSchema]).optional(),
+  targetCount: z.number().int().min(1),
+  contextBudget: z.number().min(1000),
+  dryRun: z.boolean().optional(),
+  previewDirectory: z.string().min(1).optional()
+}).refine(params => params.specification !== undefined || params.specificationId !== undefined, {
+  message: 'Either specification or specificationId is required'
+});
+
+const AgentAssignmentSchema = z.object({
+  agentId: z.string().min(1),
+  iterationNumber: z.number().int().min(1),
+  uniqueDirective: z.object({
+    innovationFocus: z.string().min(1),
+    creativeBoundary: z.string().min(1),
+    differentiationStrategy: z.string().min(1),
+    targetAudience: z.string().optional()
+  }),
+  taskContext: z.object({
+    specificationSummary: z.string(),
+    existingWork: z.array(z.string()),
+    domainContext: z.string(),
+    goalStatement: z.string().min(1)
+  }),
+  qualityStandards: z.object({
+    functionalRequirements: z.array(z.string()),
+    designRequirements: z.array(z.string()),
+    performanceRequirements: z.array(z.string()),
+    uniquenessRequirements: z.array(z.string()),
+    domainSpecificRequirements: z.array(z.string())
+  })
 });
 
 const AgentCoordinateSchema = z.object({
-  assignments: z.array(z.any()),
-  innovationDimensions: z.array(z.string()),
-  contextMonitor: z.any()
+  waveId: z.string().uuid(),
+  assignments: z.array(AgentAssignmentSchema).min(1).max(20),
+  innovationDimensions: z.array(z.string()).optional(),
+  overwriteExisting: z.boolean().optional(),
+  failureHandling: FailureHandlingSchema.optional()
 });
 
 const ContextMonitorSchema = z.object({
@@ -73,16 +150,37 @@ const ContextMonitorSchema = z.object({
   gracefulShutdown: z.boolean()
 });
 
+const OrchestrationJobSchema = z.object({
+  jobId: z.string().uuid()
+});
+
+const OrchestrationResumeSchema = z.object({
+  outputDirectory: z.string().min(1),
+  jobId: z.string().uuid().optional()
+});
+
+const OrchestrationListSchema = z.object({
+  status: z.enum(['RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED']).optional()
+});
+
 const SpecValidateSchema = z.object({
   userSpec: z.any(),
   domain: z.any(),
   outputRequirements: z.any()
 });
 
+// Half of the MCP client's default 60 s request timeout, which progress notifications do not reset
+const DEFAULT_PROGRESS_WINDOW_MS = 30000;
+
 class InfiniteLoopMCPServer {
   private server: Server;
   private waveManager: WaveManager;
+  private orchestrationLoop: OrchestrationLoop;
+  private progressWindowMs: number;
   private agentCoordinator: AgentCoordinator;
+  private executor: AgentExecutor;
+  private jobManager: OrchestrationJobManager;
+  private specificationStore: SpecificationStore = new SpecificationStore();
   
   constructor() {
     this.server = new Server(
@@ -98,13 +196,42 @@ class InfiniteLoopMCPServer {
       }
     );
     
-    this.waveManager = new WaveManager();
-    this.agentCoordinator = new AgentCoordinator();
+    this.executor = ExecutorFactory.create(ExecutorFactory.configFromEnvironment(), { server: this.server });
+    const criticConfig = ExecutorFactory.criticConfigFromEnvironment();
+    this.agentCoordinator = new AgentCoordinator(
+      this.executor,
+      undefined,
+      this.getPositiveIntegerEnv('INFINITE_LOOP_MAX_CONCURRENT_AGENTS'),
+      criticConfig ? new IterationCritic(ExecutorFactory.create(criticConfig, { server: this.server })) : undefined
+    );
+    this.waveManager = new WaveManager(
+      this.agentCoordinator,
+      this.getPositiveIntegerEnv('INFINITE_LOOP_CONTEXT_CAPACITY') ?? 100000,
+      TokenizerFactory.fromEnvironment()
+    );
+    this.orchestrationLoop = new OrchestrationLoop(this.waveManager);
+    this.jobManager = new OrchestrationJobManager();
+    this.progressWindowMs = this.getPositiveIntegerEnv('INFINITE_LOOP_PROGRESS_WINDOW_MS') ?? DEFAULT_PROGRESS_WINDOW_MS;
     
     this.setupToolHandlers();
     this.setupErrorHandling();
   }
   
+  /**
+   * Read an optional positive integer setting from the environment
+   */
+  private getPositiveIntegerEnv(name: string): number | undefined {
+    const value = process.env[name];
+    if (!value) {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+  }
+  
   private setupToolHandlers(): void {
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
@@ -112,7 +239,7 @@ class InfiniteLoopMCPServer {
         tools: [
           {
             name: 'infinite_orchestrate',
-            description: 'Orchestrate infinite agentic loop generation with universal specifications',
+            description: 'Start a background orchestration job for infinite agentic loop generation; returns a job ID for orchestration_status',
             inputSchema: {
               type: 'object',
               properties: {
@@ -135,70 +262,187 @@ class InfiniteLoopMCPServer {
                   },
                   required: ['type', 'count']
                 },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Plan the waves and render every agent prompt with token estimates without executing anything'
+                },
+                previewDirectory: {
+                  type: 'string',
+                  description: 'Dry run only: also write the rendered prompts and a preview.json index here'
+                },
                 config: {
                   type: 'object',
                   description: 'Optional orchestration configuration',
                   properties: {
                     contextThreshold: { type: 'number' },
+                    totalCapacity: { type: 'number', description: 'Token budget for the run' },
                     gracefulShutdown: { type: 'boolean' },
-                    progressiveSophistication: { type: 'boolean' }
+                    progressiveSophistication: { type: 'boolean' },
+                    sophisticationSchedule: {
+                      type: 'object',
+                      properties: {
+                        wavesPerLevel: { type: 'number' },
+                        promotionThreshold: { type: 'number' }
+                      }
+                    },
+                    overwriteExisting: { type: 'boolean' },
+                    failureHandling: {
+                      type: 'object',
+                      properties: {
+                        maxRetries: { type: 'number' },
+                        timeoutMs: { type: 'number' },
+                        gracefulDegradation: { type: 'boolean' }
+                      }
+                    }
                   }
                 }
               },
               required: ['specification', 'outputDirectory', 'mode']
             }
           },
+          {
+            name: 'orchestration_status',
+            description: 'Report status, wave progress, agent progress and partial results of an orchestration job',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: {
+                  type: 'string',
+                  description: 'Job ID returned by infinite_orchestrate'
+                }
+              },
+              required: ['jobId']
+            }
+          },
+          {
+            name: 'orchestration_list',
+            description: 'List orchestration jobs known to this server',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                status: {
+                  type: 'string',
+                  enum: ['RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'],
+                  description: 'Only list jobs with this status'
+                }
+              }
+            }
+          },
+          {
+            name: 'orchestration_cancel',
+            description: 'Cancel a running orchestration job after its in-flight agents finish',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: {
+                  type: 'string',
+                  description: 'Job ID to cancel'
+                }
+              },
+              required: ['jobId']
+            }
+          },
+          {
+            name: 'orchestration_resume',
+            description: 'Resume an interrupted orchestration from its on-disk journal, re-executing only assignments that never completed',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                outputDirectory: {
+                  type: 'string',
+                  description: 'Output directory of the interrupted run'
+                },
+                jobId: {
+                  type: 'string',
+                  description: 'Job ID to resume (defaults to the most recent resumable journal)'
+                }
+              },
+              required: ['outputDirectory']
+            }
+          },
           {
             name: 'wave_plan',
-            description: 'Plan a generation wave based on existing work and sophistication level',
+            description: 'Plan a generation wave with real agent assignments (directives, task context, quality standards) without executing it',
             inputSchema: {
               type: 'object',
               properties: {
+                specification: {
+                  type: 'object',
+                  description: 'Universal specification to plan for'
+                },
+                specificationId: {
+                  type: 'string',
+                  description: 'ID of a specification previously passed to spec_validate or infinite_orchestrate'
+                },
+                outputDirectory: {
+                  type: 'string',
+                  description: 'Output directory the planned iterations are written to; existing iterations are discovered here unless existingWork is given'
+                },
                 existingWork: {
                   type: 'array',
-                  description: 'Array of existing iteration information'
+                  description: 'Existing iterations (IterationInfo: number, filePath, summary, innovationDimensions, qualityScore, uniquenessScore)'
                 },
                 sophisticationLevel: {
-                  type: 'object',
-                  description: 'Target sophistication level for the wave'
+                  type: ['object', 'number'],
+                  description: 'Target sophistication level (object or level number from the specification; defaults to the first level)'
                 },
                 targetCount: {
                   type: 'number',
-                  description: 'Number of iterations to plan for'
+                  description: 'Number of iterations to plan for (at most 20 per wave)'
                 },
                 contextBudget: {
                   type: 'number',
-                  description: 'Available context budget for the wave'
+                  description: 'Token budget for the wave; trailing agents are dropped until the plan fits'
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Also render every agent prompt with token estimates'
+                },
+                previewDirectory: {
+                  type: 'string',
+                  description: 'Dry run only: also write the rendered prompts and a preview.json index here'
                 }
               },
-              required: ['existingWork', 'sophisticationLevel', 'targetCount', 'contextBudget']
+              required: ['outputDirectory', 'targetCount', 'contextBudget']
             }
           },
           {
             name: 'agent_coordinate',
-            description: 'Coordinate parallel agent execution with sophisticated assignment',
+            description: 'Execute a wave planned by wave_plan with its (optionally edited) agent assignments and return the wave results',
             inputSchema: {
               type: 'object',
               properties: {
+                waveId: {
+                  type: 'string',
+                  description: 'Wave ID returned by wave_plan'
+                },
                 assignments: {
                   type: 'array',
-                  description: 'Array of agent assignments'
+                  description: 'Agent assignments to run, usually the planned ones after inspection or edits'
                 },
                 innovationDimensions: {
                   type: 'array',
-                  description: 'Available innovation dimensions'
+                  description: 'Allowed innovation dimensions; every assignment must focus on one of them'
                 },
-                contextMonitor: {
+                overwriteExisting: {
+                  type: 'boolean',
+                  description: 'Replace iteration files that already exist'
+                },
+                failureHandling: {
                   type: 'object',
-                  description: 'Context monitoring configuration'
+                  properties: {
+                    maxRetries: { type: 'number' },
+                    timeoutMs: { type: 'number' },
+                    gracefulDegradation: { type: 'boolean' }
+                  }
                 }
               },
-              required: ['assignments', 'innovationDimensions', 'contextMonitor']
+              required: ['waveId', 'assignments']
             }
           },
           {
             name: 'context_monitor',
-            description: 'Monitor context capacity and manage graceful shutdown',
+            description: 'Report a wave\'s status, token budget, usage and per-agent breakdown; optionally gracefully shut down its running job once the threshold is crossed',
             inputSchema: {
               type: 'object',
               properties: {
@@ -212,7 +456,7 @@ class InfiniteLoopMCPServer {
                 },
                 gracefulShutdown: {
                   type: 'boolean',
-                  description: 'Whether to enable graceful shutdown'
+                  description: 'Gracefully shut down the wave\'s running job when the threshold is crossed'
                 }
               },
               required: ['waveId', 'capacityThreshold', 'gracefulShutdown']
@@ -251,7 +495,15 @@ class InfiniteLoopMCPServer {
       try {
         switch (name) {
           case 'infinite_orchestrate':
-            return await this.handleInfiniteOrchestrate(args);
+            return await this.handleInfiniteOrchestrate(args, request.params._meta?.progressToken);
+          case 'orchestration_status':
+            return await this.handleOrchestrationStatus(args);
+          case 'orchestration_list':
+            return await this.handleOrchestrationList(args);
+          case 'orchestration_cancel':
+            return await this.handleOrchestrationCancel(args);
+          case 'orchestration_resume':
+            return await this.handleOrchestrationResume(args, request.params._meta?.progressToken);
           case 'wave_plan':
             return await this.handleWavePlan(args);
           case 'agent_coordinate':
@@ -270,6 +522,12 @@ class InfiniteLoopMCPServer {
         if (error instanceof McpError) {
           throw error;
         }
+        if (error instanceof z.ZodError) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Invalid arguments for ${name}: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+          );
+        }
         throw new McpError(
           ErrorCode.InternalError,
           `Error executing tool ${name}: ${error}`
@@ -278,7 +536,7 @@ class InfiniteLoopMCPServer {
     });
   }
   
-  private async handleInfiniteOrchestrate(args: any): Promise<{ content: any[] }> {
+  private async handleInfiniteOrchestrate(args: any, progressToken?: ProgressToken): Promise<{ content: any[] }> {
     const params = InfiniteOrchestrateSchema.parse(args);
     
     // Validate specification
@@ -291,95 +549,445 @@ class InfiniteLoopMCPServer {
     }
     
     const specification = specValidation.specification;
+    this.specificationStore.save(specification);
     const config: OrchestrationConfig = {
       mode: params.mode,
-      contextThreshold: params.config?.contextThreshold || 0.9,
-      gracefulShutdown: params.config?.gracefulShutdown || true,
-      progressiveSophistication: params.config?.progressiveSophistication || true,
+      contextThreshold: params.config?.contextThreshold ?? 0.9,
+      totalCapacity: params.config?.totalCapacity,
+      gracefulShutdown: params.config?.gracefulShutdown ?? true,
+      progressiveSophistication: params.config?.progressiveSophistication ?? true,
+      sophisticationSchedule: params.config?.sophisticationSchedule,
+      overwriteExisting: params.config?.overwriteExisting ?? false,
       failureHandling: {
-        maxRetries: params.config?.failureHandling?.maxRetries || 3,
-        timeoutMs: params.config?.failureHandling?.timeoutMs || 300000,
-        gracefulDegradation: params.config?.failureHandling?.gracefulDegradation || true
+        maxRetries: params.config?.failureHandling?.maxRetries ?? 3,
+        timeoutMs: params.config?.failureHandling?.timeoutMs ?? 300000,
+        gracefulDegradation: params.config?.failureHandling?.gracefulDegradation ?? true
       }
     };
     
-    const result = await this.orchestrateInfiniteLoop(
+    if (params.dryRun) {
+      const preview = await this.previewOrchestration(specification, params.outputDirectory, config);
+      return this.promptPreviewResponse(preview, params.previewDirectory);
+    }
+    
+    this.assertExecutorAvailable();
+    
+    const job = this.jobManager.start(
       specification,
       params.outputDirectory,
-      config
+      config,
+      context => this.orchestrationLoop.run(specification, params.outputDirectory, config, context)
     );
     
+    // With a progress token the call streams progress for a bounded window, then returns the job
+    if (progressToken !== undefined) {
+      return this.followJobWithProgress(job, progressToken);
+    }
+    
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(result, null, 2)
+        text: JSON.stringify({
+          message: 'Orchestration started',
+          ...OrchestrationJobManager.summarize(job)
+        }, null, 2)
+      }]
+    };
+  }
+  
+  private async handleOrchestrationStatus(args: any): Promise<{ content: any[] }> {
+    const params = OrchestrationJobSchema.parse(args);
+    const job = this.getJobOrThrow(params.jobId);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          ...OrchestrationJobManager.summarize(job),
+          waves: job.waves.map(wave => ({
+            waveId: wave.id,
+            waveNumber: wave.waveNumber,
+            status: wave.status,
+            sophisticationLevel: wave.sophisticationLevel.name,
+            targetIterations: wave.targetIterations,
+            contextBudget: wave.contextBudget,
+            tokensUsed: (wave.results || []).reduce((total, result) => total + (result.tokenUsage?.totalTokens || 0), 0),
+            startTime: wave.startTime,
+            endTime: wave.endTime,
+            agents: this.agentCoordinator.getWaveAgentStatuses(wave.id),
+            results: wave.results || []
+          })),
+          result: job.result && {
+            ...job.result,
+            contextUsage: WaveManager.serializeContextMonitor(job.result.contextUsage)
+          },
+          errorMessage: job.errorMessage
+        }, null, 2)
+      }]
+    };
+  }
+  
+  private async handleOrchestrationList(args: any): Promise<{ content: any[] }> {
+    const params = OrchestrationListSchema.parse(args || {});
+    
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          jobs: this.jobManager.list(params.status).map(job => OrchestrationJobManager.summarize(job))
+        }, null, 2)
+      }]
+    };
+  }
+  
+  private async handleOrchestrationCancel(args: any): Promise<{ content: any[] }> {
+    const params = OrchestrationJobSchema.parse(args);
+    const job = this.getJobOrThrow(params.jobId);
+    const wasRunning = job.status === 'RUNNING';
+    this.jobManager.cancel(job.id);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          message: wasRunning
+            ? 'Cancellation requested; in-flight agents will finish and remaining waves are cancelled'
+            : `Job already ${job.status.toLowerCase()}`,
+          ...OrchestrationJobManager.summarize(job)
+        }, null, 2)
+      }]
+    };
+  }
+  
+  private async handleOrchestrationResume(args: any, progressToken?: ProgressToken): Promise<{ content: any[] }> {
+    const params = OrchestrationResumeSchema.parse(args);
+    
+    const jobId = params.jobId || await RunJournal.findLatestUnfinished(params.outputDirectory);
+    if (!jobId) {
+      throw new McpError(ErrorCode.InvalidParams, `No resumable orchestration journal found in ${params.outputDirectory}`);
+    }
+    if (this.jobManager.get(jobId)?.status === 'RUNNING') {
+      throw new McpError(ErrorCode.InvalidRequest, `Orchestration job ${jobId} is still running`);
+    }
+    
+    let recovered: RecoveredRun;
+    try {
+      recovered = await RunJournal.recover(params.outputDirectory, jobId);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Cannot resume job ${jobId}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (recovered.finished) {
+      throw new McpError(ErrorCode.InvalidRequest, `Orchestration job ${jobId} already finished`);
+    }
+    
+    this.assertExecutorAvailable();
+    
+    const job = this.jobManager.start(
+      recovered.specification,
+      recovered.outputDirectory,
+      recovered.config,
+      context => this.orchestrationLoop.run(
+        recovered.specification,
+        recovered.outputDirectory,
+        recovered.config,
+        context,
+        recovered
+      ),
+      jobId
+    );
+    
+    if (progressToken !== undefined) {
+      return this.followJobWithProgress(job, progressToken);
+    }
+    
+    const pendingAssignments = recovered.waves
+      .filter(wave => !wave.finished)
+      .reduce((sum, wave) => sum + wave.wave.agentAssignments.length, 0);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Orchestration resumed',
+          pendingAssignments,
+          ...OrchestrationJobManager.summarize(job)
+        }, null, 2)
       }]
     };
   }
   
+  /**
+   * Stream a job's progress on the open request until it ends or the progress window elapses
+   *
+   * Clients time out requests regardless of progress, so the jobId is always returned within the window.
+   */
+  private async followJobWithProgress(job: OrchestrationJob, progressToken: ProgressToken): Promise<{ content: any[] }> {
+    const notifier = new ProgressNotifier(this.server, progressToken);
+    notifier.jobStarted(job.id);
+    const unsubscribe = this.agentCoordinator.addProgressListener(agent => {
+      if (job.waves.some(wave => wave.id === agent.waveId)) {
+        notifier.agentUpdate(agent);
+      }
+    });
+    job.listeners.onWaveCompleted = (wave, results) => notifier.waveCompleted(wave, results);
+    
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        job.completion,
+        new Promise<void>(resolve => {
+          timer = setTimeout(resolve, this.progressWindowMs);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+      unsubscribe();
+      job.listeners.onWaveCompleted = undefined;
+    }
+    
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          ...(job.status === 'RUNNING' && { message: 'Progress window ended; follow the job with orchestration_status' }),
+          ...OrchestrationJobManager.summarize(job),
+          result: job.result && {
+            ...job.result,
+            contextUsage: WaveManager.serializeContextMonitor(job.result.contextUsage)
+          },
+          errorMessage: job.errorMessage
+        }, null, 2)
+      }]
+    };
+  }
+  
+  private getJobOrThrow(jobId: string): OrchestrationJob {
+    const job = this.jobManager.get(jobId);
+    if (!job) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown orchestration job: ${jobId}`);
+    }
+    return job;
+  }
+  
   private async handleWavePlan(args: any): Promise<{ content: any[] }> {
     const params = WavePlanSchema.parse(args);
+    const specification = this.resolveSpecification(params.specification, params.specificationId);
     
-    // This would integrate with the actual wave planning logic
-    const planResult: WavePlanResult = {
-      waveConfiguration: {
-        id: crypto.randomUUID(),
-        waveNumber: 1,
-        specification: {} as UniversalSpecification,
-        sophisticationLevel: params.sophisticationLevel,
-        agentAssignments: [],
-        maxConcurrency: 5,
-        contextBudget: params.contextBudget,
-        estimatedDuration: 300,
-        outputDirectory: '',
-        existingIterations: params.existingWork,
-        targetIterations: params.targetCount,
-        status: 'PLANNED'
-      },
-      agentAssignments: [],
-      estimatedDuration: 300,
-      contextRequirement: params.contextBudget
-    };
+    const sophisticationLevel = typeof params.sophisticationLevel === 'number'
+      ? specification.sophisticationLevels.find(level => level.level === params.sophisticationLevel)
+      : params.sophisticationLevel ?? [...specification.sophisticationLevels].sort((a, b) => a.level - b.level)[0];
+    if (!sophisticationLevel) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Specification has no sophistication level ${params.sophisticationLevel}`
+      );
+    }
+    
+    const outputDirectory = params.outputDirectory;
+    const existingIterations = params.existingWork ?? await IterationDiscovery.discover(outputDirectory, specification);
+    
+    // Waves planned one at a time continue the numbering recorded in the output directory
+    const manifest = await IterationManifestStore.read(outputDirectory);
+    const waveNumber = Math.max(0, ...(manifest?.iterations || []).map(entry => entry.waveNumber)) + 1;
+    
+    // Plan exactly targetCount new iterations, then trim to what the context budget allows
+    const plan = this.waveManager.planWave(
+      specification,
+      { type: 'BATCH', count: existingIterations.length + params.targetCount, batchSize: params.targetCount },
+      existingIterations,
+      sophisticationLevel,
+      outputDirectory,
+      waveNumber
+    );
+    const plannedCount = plan.agentAssignments.length;
+    let planResult: WavePlanResult;
+    try {
+      planResult = this.waveManager.fitPlanToContextBudget(plan, params.contextBudget);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+    
+    // agent_coordinate executes the plan by wave id
+    this.waveManager.registerPlannedWave(planResult.waveConfiguration);
+    
+    let preview: PromptPreview | undefined;
+    if (params.dryRun) {
+      preview = PromptPreviewWriter.summarize([this.waveManager.previewWave(planResult.waveConfiguration)]);
+      if (params.previewDirectory) {
+        preview = await PromptPreviewWriter.write(params.previewDirectory, preview);
+      }
+    }
     
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(planResult, null, 2)
+        text: JSON.stringify({
+          ...planResult,
+          requestedCount: params.targetCount,
+          clampedByContextBudget: planResult.agentAssignments.length < plannedCount,
+          preview
+        }, null, 2)
       }]
     };
   }
   
+  /**
+   * Validate an inline specification or look up a stored one
+   */
+  private resolveSpecification(specification: unknown, specificationId?: string): UniversalSpecification {
+    if (specification !== undefined) {
+      const specValidation = SpecificationParser.parseSpecification(specification);
+      if (!specValidation.valid) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid specification: ${specValidation.errors.join(', ')}`
+        );
+      }
+      this.specificationStore.save(specValidation.specification);
+      return specValidation.specification;
+    }
+    
+    const stored = this.specificationStore.get(specificationId!);
+    if (!stored) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown specification: ${specificationId}`);
+    }
+    return stored;
+  }
+  
   private async handleAgentCoordinate(args: any): Promise<{ content: any[] }> {
     const params = AgentCoordinateSchema.parse(args);
     
-    const coordinationMetrics = this.agentCoordinator.getCoordinationMetrics();
+    const wave = this.waveManager.getWave(params.waveId);
+    if (!wave) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown wave: ${params.waveId}. Plans run once and expire after an hour; plan it with wave_plan first`);
+    }
+    if (wave.status !== 'PLANNED') {
+      throw new McpError(ErrorCode.InvalidRequest, `Wave ${params.waveId} is ${wave.status} and cannot be executed again`);
+    }
+    
+    const assignments: AgentAssignment[] = params.assignments;
+    const issues = this.validateAssignments(assignments, params.innovationDimensions);
+    if (issues.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid assignments: ${issues.join('; ')}`);
+    }
+    
+    this.assertExecutorAvailable();
+    
+    this.waveManager.assignAgents(wave, assignments);
+    const config: OrchestrationConfig = {
+      mode: { type: 'BATCH', count: assignments.length },
+      contextThreshold: 0.9,
+      gracefulShutdown: true,
+      progressiveSophistication: false,
+      overwriteExisting: params.overwriteExisting ?? false,
+      failureHandling: {
+        maxRetries: params.failureHandling?.maxRetries ?? 3,
+        timeoutMs: params.failureHandling?.timeoutMs ?? 300000,
+        gracefulDegradation: params.failureHandling?.gracefulDegradation ?? true
+      }
+    };
+    
+    let results: WaveResult[];
+    let errorMessage: string | undefined;
+    try {
+      results = await this.waveManager.executeWave(wave, config);
+    } catch (error) {
+      // A failed wave still reports the agents that finished before it stopped
+      results = wave.results || [];
+      errorMessage = `${error}`;
+    }
     
     return {
       content: [{
         type: 'text',
         text: JSON.stringify({
-          message: 'Agent coordination initiated',
-          metrics: coordinationMetrics,
-          assignmentCount: params.assignments.length,
-          innovationDimensions: params.innovationDimensions
+          waveId: wave.id,
+          status: wave.status,
+          contextBudget: wave.contextBudget,
+          results,
+          errorMessage,
+          metrics: this.agentCoordinator.getCoordinationMetrics()
         }, null, 2)
       }]
     };
   }
   
+  /**
+   * Check edited assignments for duplicates and disallowed innovation focus
+   */
+  private validateAssignments(assignments: AgentAssignment[], innovationDimensions?: string[]): string[] {
+    const issues: string[] = [];
+    const agentIds = new Set<string>();
+    const iterationNumbers = new Set<number>();
+    
+    assignments.forEach(assignment => {
+      if (agentIds.has(assignment.agentId)) {
+        issues.push(`duplicate agentId ${assignment.agentId}`);
+      }
+      if (iterationNumbers.has(assignment.iterationNumber)) {
+        issues.push(`duplicate iterationNumber ${assignment.iterationNumber}`);
+      }
+      if (innovationDimensions && !innovationDimensions.includes(assignment.uniqueDirective.innovationFocus)) {
+        issues.push(`${assignment.agentId} focuses on ${assignment.uniqueDirective.innovationFocus}, which is not an allowed innovation dimension`);
+      }
+      agentIds.add(assignment.agentId);
+      iterationNumbers.add(assignment.iterationNumber);
+    });
+    
+    return issues;
+  }
+  
   private async handleContextMonitor(args: any): Promise<{ content: any[] }> {
     const params = ContextMonitorSchema.parse(args);
     
-    const contextStatus = this.waveManager.getContextMonitor();
-    const shouldShutdown = this.waveManager.shouldTriggerGracefulShutdown(params.capacityThreshold);
+    // Waves planned by orchestration jobs stay queryable after they finish
+    const owner = this.jobManager.findWave(params.waveId);
+    const wave = owner?.wave ?? this.waveManager.getWave(params.waveId);
+    if (!wave) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown wave: ${params.waveId}`);
+    }
+    
+    const contextMonitor = owner?.job.contextMonitor ?? this.waveManager.getContextMonitor();
+    const results = wave.results || [];
+    const agentStatuses = new Map(
+      this.agentCoordinator.getWaveAgentStatuses(wave.id).map(progress => [progress.agentId, progress])
+    );
+    const agents = wave.agentAssignments.map(assignment => {
+      const result = results.find(candidate => candidate.agentId === assignment.agentId);
+      const progress = agentStatuses.get(assignment.agentId);
+      return {
+        agentId: assignment.agentId,
+        iterationNumber: assignment.iterationNumber,
+        status: result ? (result.success ? 'COMPLETED' : 'FAILED') : progress?.status ?? (wave.startTime ? 'SKIPPED' : 'PLANNED'),
+        tokensUsed: result?.tokenUsage?.totalTokens ?? progress?.contextUsage ?? 0
+      };
+    });
+    const tokensUsed = agents.reduce((total, agent) => total + agent.tokensUsed, 0);
+    
+    // Threshold checks apply to the budget of the run that owns the wave
+    const shouldShutdown = this.waveManager.shouldTriggerGracefulShutdown(params.capacityThreshold, contextMonitor);
+    const gracefulShutdownTriggered = Boolean(
+      shouldShutdown && params.gracefulShutdown && owner?.job.status === 'RUNNING'
+    );
+    if (gracefulShutdownTriggered) {
+      this.jobManager.shutdown(owner!.job.id);
+    }
     
     return {
       content: [{
         type: 'text',
         text: JSON.stringify({
-          waveId: params.waveId,
-          contextStatus,
+          waveId: wave.id,
+          waveNumber: wave.waveNumber,
+          jobId: owner?.job.id,
+          status: wave.status,
+          contextBudget: wave.contextBudget,
+          tokensUsed,
+          budgetUtilization: wave.contextBudget > 0 ? tokensUsed / wave.contextBudget : 0,
+          agents,
+          contextStatus: WaveManager.serializeContextMonitor(contextMonitor),
           shouldTriggerGracefulShutdown: shouldShutdown,
+          gracefulShutdownTriggered,
           thresholdUsed: params.capacityThreshold
         }, null, 2)
       }]
@@ -413,6 +1021,11 @@ class InfiniteLoopMCPServer {
       result = SpecificationParser.parseSpecification(params.userSpec);
     }
     
+    // Valid specifications can be referenced by id from wave_plan
+    if (result.valid) {
+      this.specificationStore.save(result.specification);
+    }
+    
     return {
       content: [{
         type: 'text',
@@ -421,62 +1034,96 @@ class InfiniteLoopMCPServer {
     };
   }
   
+  private assertExecutorAvailable(): void {
+    try {
+      this.executor.assertAvailable?.();
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Executor "${this.executor.name}" is unavailable: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+  
   private isMinimalSpec(spec: any): boolean {
     const requiredFields = ['id', 'version', 'sophisticationLevels', 'innovationDimensions'];
     return !requiredFields.every(field => field in spec);
   }
   
-  private async orchestrateInfiniteLoop(
+  /**
+   * Plan the waves a run would execute and render their prompts, assuming every agent succeeds
+   */
+  private async previewOrchestration(
     specification: UniversalSpecification,
     outputDirectory: string,
     config: OrchestrationConfig
-  ): Promise<OrchestrationResult> {
-    const startTime = Date.now();
-    let totalIterations = 0;
-    let completedWaves = 0;
-    const allResults: any[] = [];
+  ): Promise<PromptPreview> {
+    const scheduler = new SophisticationScheduler(specification, config);
+    const contextMonitor = this.waveManager.createContextMonitor(config.totalCapacity);
+    const existingIterations = await IterationDiscovery.discover(outputDirectory, specification);
+    const waves: PromptPreviewWave[] = [];
     
-    try {
-      // For demonstration, simulate a single wave execution
-      const sophisticationLevel = specification.sophisticationLevels[0];
-      const existingIterations: any[] = [];
-      
-      const wavePlan = this.waveManager.planWave(
+    // Without a target count or wave limit the run is unbounded, so only the next wave is previewed
+    const maxWaves = config.mode.maxWaves ?? (typeof config.mode.count === 'number' ? Infinity : 1);
+    
+    while (
+      waves.length < maxWaves &&
+      !this.orchestrationLoop.checkStopCondition(config, existingIterations.length, waves.length, contextMonitor)
+    ) {
+      const schedule = scheduler.nextWave();
+      const wave = this.waveManager.planWave(
         specification,
         config.mode,
         existingIterations,
-        sophisticationLevel,
-        outputDirectory
-      );
-      
-      const waveResults = await this.waveManager.executeWave(wavePlan.waveConfiguration);
-      
-      totalIterations = waveResults.length;
-      completedWaves = 1;
-      allResults.push(...waveResults);
-      
-      return {
-        success: true,
-        totalIterations,
-        completedWaves,
+        schedule.sophisticationLevel,
         outputDirectory,
-        results: allResults,
-        contextUsage: this.waveManager.getContextMonitor(),
-        duration: Date.now() - startTime
-      };
+        waves.length + 1,
+        schedule.sizeFactor
+      ).waveConfiguration;
+      const wavePreview = this.waveManager.previewWave(wave);
+      waves.push(wavePreview);
       
-    } catch (error) {
-      return {
-        success: false,
-        totalIterations,
-        completedWaves,
-        outputDirectory,
-        results: allResults,
-        contextUsage: this.waveManager.getContextMonitor(),
-        duration: Date.now() - startTime,
-        errorMessage: `Orchestration failed: ${error}`
-      };
+      // Simulate success: estimated usage is consumed and planned iterations become prior work
+      const simulatedResults: WaveResult[] = wavePreview.agents.map(agent => ({
+        agentId: agent.agentId,
+        iterationNumber: agent.iterationNumber,
+        success: true,
+        outputPath: agent.outputPath,
+        completionTime: 0,
+        tokenUsage: {
+          promptTokens: agent.estimatedTokens,
+          completionTokens: agent.estimatedContext - agent.estimatedTokens,
+          totalTokens: agent.estimatedContext
+        }
+      }));
+      simulatedResults.forEach(result => this.waveManager.recordAgentUsage(contextMonitor, wave.id, result));
+      scheduler.recordWave(wave.sophisticationLevel, simulatedResults);
+      existingIterations.push(...wavePreview.agents.map(agent => ({
+        number: agent.iterationNumber,
+        filePath: agent.outputPath,
+        summary: `Planned ${wave.sophisticationLevel.name} level exploration of ${agent.innovationFocus}`,
+        innovationDimensions: [agent.innovationFocus],
+        qualityScore: null,
+        uniquenessScore: 0
+      })));
     }
+    
+    return PromptPreviewWriter.summarize(waves);
+  }
+  
+  private async promptPreviewResponse(preview: PromptPreview, previewDirectory?: string): Promise<{ content: any[] }> {
+    const result = previewDirectory ? await PromptPreviewWriter.write(previewDirectory, preview) : preview;
+    
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Dry run: prompts rendered, nothing was executed',
+          dryRun: true,
+          ...result
+        }, null, 2)
+      }]
+    };
   }
   
   private setupErrorHandling(): void {
@@ -485,7 +1132,7 @@ class InfiniteLoopMCPServer {
     };
     
     process.on('SIGINT', async () => {
-      console.log('Shutting down server...');
+      console.error('Shutting down server...');
       await this.server.close();
       process.exit(0);
     });
@@ -8,6 +8,9 @@ import {
   ValidationRule,
   ValidationResult
 } from '../types/index.js';
+import { PromptTemplates } from '../prompts/builtInTemplates.js';
+import { PromptTemplateEngine } from '../prompts/promptTemplateEngine.js';
+import { ValidationRuleEngine } from '../validation/ruleEngine.js';
 
 // Zod schemas for validation
 const SpecificationDomainSchema = z.object({
@@ -17,7 +20,7 @@ const SpecificationDomainSchema = z.object({
   complexity: z.enum(['SIMPLE', 'MODERATE', 'COMPLEX', 'EXPERT'])
 });
 
-const SophisticationLevelSchema = z.object({
+export const SophisticationLevelSchema = z.object({
   level: z.number().min(1),
   name: z.string().min(1),
   description: z.string().min(1),
@@ -25,11 +28,41 @@ const SophisticationLevelSchema = z.object({
   qualityExpectations: z.array(z.string())
 });
 
+const ValidationCheckSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('MUST_MATCH'), pattern: z.string().min(1), flags: z.string().optional() }),
+  z.object({ kind: z.literal('MUST_NOT_MATCH'), pattern: z.string().min(1), flags: z.string().optional() }),
+  z.object({
+    kind: z.literal('MAX_SIZE'),
+    maxBytes: z.number().int().positive().optional(),
+    maxLines: z.number().int().positive().optional()
+  }),
+  z.object({ kind: z.literal('REQUIRED_SECTIONS'), sections: z.array(z.string().min(1)).min(1) }),
+  z.object({ kind: z.literal('JSON_SCHEMA'), schema: z.record(z.unknown()) }),
+  z.object({
+    kind: z.literal('COMMAND'),
+    command: z.string().min(1),
+    args: z.array(z.string()).optional(),
+    timeoutMs: z.number().int().positive().optional()
+  }),
+  z.object({ kind: z.literal('SYNTAX'), language: z.enum(['typescript', 'tsx', 'javascript', 'jsx', 'json', 'markdown']).optional() }),
+  z.object({
+    kind: z.literal('TEST'),
+    snippet: z.string().min(1).optional(),
+    command: z.string().min(1).optional(),
+    args: z.array(z.string()).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    memoryMb: z.number().int().positive().optional(),
+    cpuSeconds: z.number().int().positive().optional()
+  })
+]);
+
 const ValidationRuleSchema = z.object({
   type: z.enum(['SYNTAX', 'SEMANTIC', 'FUNCTIONAL', 'QUALITY', 'UNIQUENESS']),
   description: z.string().min(1),
   validator: z.string().min(1),
-  severity: z.enum(['WARNING', 'ERROR', 'CRITICAL'])
+  severity: z.enum(['WARNING', 'ERROR', 'CRITICAL']),
+  threshold: z.number().min(0).max(100).optional(),
+  check: ValidationCheckSchema.optional()
 });
 
 const UniversalSpecificationSchema = z.object({
@@ -50,7 +83,9 @@ const UniversalSpecificationSchema = z.object({
   evolutionPattern: z.enum(['LINEAR', 'EXPONENTIAL', 'ADAPTIVE', 'CREATIVE_BURST']),
   progressionStrategy: z.string().min(1),
   successCriteria: z.array(z.string()),
-  validationRules: z.array(ValidationRuleSchema)
+  validationRules: z.array(ValidationRuleSchema),
+  promptTemplate: z.string().min(1).optional(),
+  promptPartials: z.record(z.string()).optional()
 });
 
 export class SpecificationParser {
@@ -80,6 +115,17 @@ export class SpecificationParser {
         warnings.push('Consider adding more innovation dimensions for better creative diversity');
       }
       
+      // Validate executable rule checks
+      validatedSpec.validationRules.forEach((rule, index) => {
+        if (rule.check) {
+          ValidationRuleEngine.validateCheck(rule.check)
+            .forEach(error => errors.push(`validationRules.${index}.check: ${error}`));
+        }
+      });
+      
+      // Validate prompt template variables and partials
+      errors.push(...this.validatePromptTemplate(validatedSpec));
+      
       // Validate domain-specific requirements
       const domainValidation = this.validateDomainSpecificRequirements(validatedSpec);
       warnings.push(...domainValidation.warnings);
@@ -256,6 +302,22 @@ export class SpecificationParser {
     ];
   }
   
+  private static validatePromptTemplate(spec: UniversalSpecification): string[] {
+    if (spec.promptTemplate === undefined && spec.promptPartials === undefined) {
+      return [];
+    }
+    
+    const { template, partials } = PromptTemplates.resolve(spec);
+    const errors = PromptTemplateEngine.validate(template, partials);
+    
+    // Custom partials are checked even when the template does not reference them
+    Object.entries(spec.promptPartials || {}).forEach(([name, partial]) => {
+      errors.push(...PromptTemplateEngine.validate(partial, partials, `partial ${name}`));
+    });
+    
+    return Array.from(new Set(errors));
+  }
+  
   private static validateDomainSpecificRequirements(spec: UniversalSpecification): {
     warnings: string[];
     suggestions: string[];
@@ -0,0 +1,21 @@
+// Specification Store - In-Memory Registry of Validated Specifications
+
+import { UniversalSpecification } from '../types/index.js';
+
+export class SpecificationStore {
+  private specifications: Map<string, UniversalSpecification> = new Map();
+  
+  /**
+   * Remember a validated specification under its id
+   */
+  save(specification: UniversalSpecification): void {
+    this.specifications.set(specification.id, specification);
+  }
+  
+  /**
+   * Get a stored specification by id
+   */
+  get(specificationId: string): UniversalSpecification | undefined {
+    return this.specifications.get(specificationId);
+  }
+}
@@ -0,0 +1,39 @@
+// Test Fixtures - Example Specification and Planned Waves for Unit Tests
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { GenerationWave, OrchestrationMode, UniversalSpecification } from '../types/index.js';
+import { AgentCoordinator } from '../agents/coordinator.js';
+import { MockExecutor } from '../executors/mockExecutor.js';
+import { WaveManager } from '../orchestration/waveManager.js';
+
+export interface TestWaveOptions {
+  specification?: UniversalSpecification;
+  mode?: OrchestrationMode; // Defaults to one BATCH wave of three agents
+  level?: number; // Index into the specification's sophistication levels
+  waveNumber?: number;
+  sizeFactor?: number;
+}
+
+/**
+ * Load a specification from the examples directory
+ */
+export function loadExampleSpecification(fileName = 'ui-components-spec.json'): UniversalSpecification {
+  return JSON.parse(readFileSync(join(process.cwd(), 'examples', fileName), 'utf8'));
+}
+
+/**
+ * Plan a wave with real assignments against the mock executor
+ */
+export function planTestWave(outputDirectory: string, options: TestWaveOptions = {}): GenerationWave {
+  const specification = options.specification ?? loadExampleSpecification();
+  return new WaveManager(new AgentCoordinator(new MockExecutor())).planWave(
+    specification,
+    options.mode ?? { type: 'BATCH', count: 3, batchSize: 3 },
+    [],
+    specification.sophisticationLevels[options.level ?? 0],
+    outputDirectory,
+    options.waveNumber ?? 1,
+    options.sizeFactor
+  ).waveConfiguration;
+}
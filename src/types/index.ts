@@ -28,6 +28,10 @@ export interface UniversalSpecification {
   // Validation and success criteria
   successCriteria: string[];
   validationRules: ValidationRule[];
+  
+  // Agent prompt customization ({{variable.name}} and {{> partialName}} tags)
+  promptTemplate?: string; // Replaces the built-in template of the domain category
+  promptPartials?: Record<string, string>; // Overrides or adds named sections, e.g. qualityStandards
 }
 
 export interface SpecificationDomain {
@@ -50,6 +54,52 @@ export interface ValidationRule {
   description: string;
   validator: string; // Validation logic description
   severity: 'WARNING' | 'ERROR' | 'CRITICAL';
+  threshold?: number; // UNIQUENESS: minimum uniqueness score (0-100)
+  check?: ValidationCheck; // Executable check; rules without one only describe intent
+}
+
+// Executable validation checks evaluated against each written artifact
+export type ValidationCheck =
+  | { kind: 'MUST_MATCH' | 'MUST_NOT_MATCH'; pattern: string; flags?: string }
+  | { kind: 'MAX_SIZE'; maxBytes?: number; maxLines?: number }
+  | { kind: 'REQUIRED_SECTIONS'; sections: string[] } // Matched against headings, case-insensitively
+  | { kind: 'JSON_SCHEMA'; schema: Record<string, unknown> }
+  | { kind: 'COMMAND'; command: string; args?: string[]; timeoutMs?: number } // {file} in args is the artifact path
+  | { kind: 'SYNTAX'; language?: SyntaxLanguage } // Language defaults to the artifact's extension or output format
+  | {
+      kind: 'TEST'; // Runs in a sandbox; exactly one of snippet (a Node ES module) or command
+      snippet?: string;
+      command?: string;
+      args?: string[]; // {file} is the artifact copy, {dir} the sandbox directory
+      timeoutMs?: number;
+      memoryMb?: number;
+      cpuSeconds?: number;
+    };
+
+export type SyntaxLanguage = 'typescript' | 'tsx' | 'javascript' | 'jsx' | 'json' | 'markdown';
+
+export interface SyntaxDiagnostic {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+  code?: string; // e.g. TS1005
+}
+
+export interface RuleEvaluation {
+  rule: string; // Rule description
+  type: ValidationRule['type'];
+  severity: ValidationRule['severity'];
+  passed: boolean;
+  message: string;
+  skipped?: boolean; // Not run, so neither passed nor failed; COMMAND and TEST rules while command rules are disabled
+  diagnostics?: SyntaxDiagnostic[]; // SYNTAX rules
+  tests?: FunctionalTestCounts; // TEST checks
+  output?: string; // Captured output tail of TEST checks
+}
+
+export interface FunctionalTestCounts {
+  passed: number;
+  failed: number;
 }
 
 // Wave-based generation interfaces
@@ -114,8 +164,78 @@ export interface IterationInfo {
   filePath: string;
   summary: string;
   innovationDimensions: string[];
-  qualityScore: number;
+  qualityScore: number | null; // Null when unscored: no TEST rule ran and no critic scored it
   uniquenessScore: number;
+  nearestNeighbor?: SimilarityMatch; // Most similar earlier iteration when scored
+}
+
+// Content similarity interfaces
+export interface SimilarityMatch {
+  iterationNumber: number;
+  filePath: string;
+  similarity: number; // Estimated Jaccard similarity of content shingles (0-1)
+}
+
+export interface UniquenessReport {
+  score: number; // 0-100, where 100 shares no shingles with any earlier iteration
+  nearestNeighbor?: SimilarityMatch;
+  comparedIterations: number;
+  threshold?: number; // From the specification's UNIQUENESS rule
+  belowThreshold: boolean;
+}
+
+// Critic interfaces
+export type CritiqueSource =
+  | 'SOPHISTICATION' // SophisticationLevel.qualityExpectations
+  | 'SUCCESS_CRITERIA'
+  | 'FUNCTIONAL' // QualityStandards groups
+  | 'DESIGN'
+  | 'PERFORMANCE'
+  | 'UNIQUENESS'
+  | 'DOMAIN_SPECIFIC';
+
+export interface CritiqueCriterion {
+  id: string; // c1, c2, ... in rubric order
+  source: CritiqueSource;
+  criterion: string;
+}
+
+export interface CriterionVerdict extends CritiqueCriterion {
+  score: number; // 0-100
+  rationale: string;
+}
+
+export interface Critique {
+  score: number; // Mean of the per-source mean scores (0-100)
+  summary: string;
+  verdicts: CriterionVerdict[]; // Criteria the verdict did not cover are omitted
+  model?: string;
+}
+
+// Per-directory iteration manifest (iterations.json)
+export interface IterationManifestEntry {
+  iteration: IterationInfo;
+  waveId: string;
+  waveNumber: number;
+  agentId: string;
+  sophisticationLevel: {
+    level: number;
+    name: string;
+  };
+  uniqueDirective: UniqueDirective;
+  contentHash: string; // sha256 of the artifact content
+  validationNotes?: string[]; // Failed WARNING rules
+  critique?: Critique; // Critic verdict behind the quality score
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+}
+
+export interface IterationManifest {
+  version: number;
+  specificationId?: string;
+  specificationName?: string;
+  updatedAt: string;
+  iterations: IterationManifestEntry[];
 }
 
 export type WaveStatus = 'PLANNED' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
@@ -125,10 +245,89 @@ export interface WaveResult {
   iterationNumber: number;
   success: boolean;
   outputPath?: string;
-  qualityScore?: number;
+  qualityScore?: number | null; // Null when unscored: no TEST rule ran and no critic scored it
   uniquenessScore?: number;
+  uniqueness?: UniquenessReport; // Nearest earlier iteration and threshold check
+  validation?: RuleEvaluation[]; // Executable rules evaluated against the artifact
+  validationNotes?: string[]; // Failed WARNING rules
+  critique?: Critique; // Critic verdict, when a critic executor is configured
   errorMessage?: string;
   completionTime: number;
+  attempts?: number; // Executions including retries
+  tokenUsage?: TokenUsage; // Usage reported by the executor, summed over validation repair attempts
+}
+
+// Agent execution backend interfaces
+export interface AgentExecutionRequest {
+  prompt: string; // Rendered agent prompt from generateAgentPrompt
+  assignment: AgentAssignment;
+  wave: GenerationWave;
+  outputPath: string; // Planned location of the iteration artifact
+  timeoutMs?: number; // Per-agent budget from failureHandling.timeoutMs
+  signal?: AbortSignal; // Aborted when the attempt times out
+  rubric?: CritiqueCriterion[]; // Set on critic requests, which return a JSON verdict instead of an artifact
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface AgentExecutionOutput {
+  content: string; // Generated iteration body
+  outputPath: string;
+  tokenUsage: TokenUsage;
+  model?: string; // Model or backend that produced the content
+}
+
+export interface AgentExecutor {
+  readonly name: string;
+  execute(request: AgentExecutionRequest): Promise<AgentExecutionOutput>;
+  assertAvailable?(): void; // Throws when the backend cannot serve requests
+}
+
+// Token estimation interfaces
+export type TokenizerType = 'APPROXIMATE' | 'CHARACTER';
+
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+}
+
+export type ExecutorType = 'MOCK' | 'SAMPLING' | 'OPENAI' | 'SUBPROCESS';
+
+export interface ExecutorConfig {
+  type: ExecutorType;
+  mock?: {
+    latencyMs?: number; // Simulated execution delay per agent
+  };
+  sampling?: {
+    baseMaxTokens?: number; // Max tokens per sophistication level step
+    maxTokensByLevel?: Record<number, number>; // Explicit per-level overrides
+    temperature?: number;
+    systemPrompt?: string;
+    modelHints?: string[]; // Preferred model names passed to the client
+    requestTimeoutMs?: number;
+  };
+  openai?: {
+    baseUrl: string; // e.g. http://localhost:8080/v1
+    model: string;
+    apiKey?: string;
+    apiKeyEnv?: string; // Environment variable holding the API key
+    stream?: boolean;
+    maxTokens?: number;
+    temperature?: number;
+    systemPrompt?: string;
+  };
+  subprocess?: {
+    command: string;
+    args?: string[]; // Supports {promptFile}, {outputPath}, {number} and {agentId} placeholders
+    input?: 'STDIN' | 'FILE'; // How the prompt is handed to the command
+    output?: 'STDOUT' | 'FILE'; // Read stdout, or the file named by namingPattern
+    envAllowlist?: string[]; // Parent environment variables passed through
+    env?: Record<string, string>; // Additional fixed environment variables
+  };
 }
 
 // Orchestration control interfaces
@@ -152,8 +351,14 @@ export interface ContextMonitor {
 export interface OrchestrationConfig {
   mode: OrchestrationMode;
   contextThreshold: number; // When to trigger graceful shutdown
+  totalCapacity?: number; // Token budget for the run (defaults to the server capacity)
   gracefulShutdown: boolean;
   progressiveSophistication: boolean;
+  overwriteExisting: boolean; // Replace iteration files that already exist
+  sophisticationSchedule?: {
+    wavesPerLevel?: number; // LINEAR/EXPONENTIAL: waves before stepping up a level
+    promotionThreshold?: number; // ADAPTIVE: average quality required to step up
+  };
   failureHandling: {
     maxRetries: number;
     timeoutMs: number;
@@ -177,9 +382,11 @@ export interface WavePlanParams {
 }
 
 export interface AgentCoordinateParams {
+  waveId: string; // Wave planned by wave_plan
   assignments: AgentAssignment[];
-  innovationDimensions: string[];
-  contextMonitor: ContextMonitor;
+  innovationDimensions?: string[]; // Restricts the innovation focus of each assignment
+  overwriteExisting?: boolean;
+  failureHandling?: Partial<OrchestrationConfig['failureHandling']>;
 }
 
 export interface ContextMonitorParams {
@@ -203,9 +410,18 @@ export interface OrchestrationResult {
   results: WaveResult[];
   contextUsage: ContextMonitor;
   duration: number;
+  stopReason?: OrchestrationStopReason;
   errorMessage?: string;
 }
 
+export type OrchestrationStopReason =
+  | 'TARGET_REACHED' // mode.count iterations exist (or the SINGLE wave finished)
+  | 'MAX_WAVES'
+  | 'CONTEXT_THRESHOLD'
+  | 'NO_PROGRESS' // A wave produced no successful iterations
+  | 'CANCELLED'
+  | 'ERROR';
+
 export interface WavePlanResult {
   waveConfiguration: GenerationWave;
   agentAssignments: AgentAssignment[];
@@ -213,6 +429,35 @@ export interface WavePlanResult {
   contextRequirement: number;
 }
 
+// Dry-run prompt previews
+export interface PromptPreviewAgent {
+  agentId: string;
+  iterationNumber: number;
+  innovationFocus: string;
+  outputPath: string; // Where the iteration would be written
+  estimatedTokens: number; // Tokens in the rendered prompt
+  estimatedContext: number; // Prompt plus expected completion
+  prompt?: string; // Omitted once written to promptFile
+  promptFile?: string; // Relative path of the prompt within the preview directory
+}
+
+export interface PromptPreviewWave {
+  waveId: string;
+  waveNumber: number;
+  sophisticationLevel: string;
+  agents: PromptPreviewAgent[];
+  estimatedTokens: number;
+  estimatedContext: number;
+}
+
+export interface PromptPreview {
+  waves: PromptPreviewWave[];
+  totalPrompts: number;
+  totalEstimatedTokens: number; // Sum of prompt tokens
+  totalEstimatedContext: number; // Prompts plus expected completions
+  previewDirectory?: string;
+}
+
 export interface ValidationResult {
   valid: boolean;
   specification: UniversalSpecification;
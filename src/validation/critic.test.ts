@@ -0,0 +1,93 @@
+// Iteration Critic Tests - Rubric Scoring Through the Mock Executor
+
+import { CriterionVerdict } from '../types/index.js';
+import { MockExecutor } from '../executors/mockExecutor.js';
+import { planTestWave } from '../testing/fixtures.js';
+import { IterationCritic } from './critic.js';
+
+function verdict(id: string, source: CriterionVerdict['source'], score: number): CriterionVerdict {
+  return { id, source, criterion: id, score, rationale: '' };
+}
+
+describe('IterationCritic', () => {
+  it('scores an artifact deterministically through the mock executor', async () => {
+    const wave = planTestWave('/tmp/critic-test');
+    const request = {
+      content: 'export const SearchComponent = () => null;\n',
+      outputPath: '/tmp/critic-test/SearchComponent_1.tsx',
+      assignment: wave.agentAssignments[0],
+      wave
+    };
+    const critic = new IterationCritic(new MockExecutor());
+    const rubric = IterationCritic.rubric(request.assignment, wave);
+    
+    const first = await critic.critique(request);
+    const second = await critic.critique(request);
+    
+    expect(first).toBeDefined();
+    expect(second).toEqual(first);
+    expect(first!.critique.model).toBe('mock');
+    expect(first!.critique.verdicts.map(({ id }) => id)).toEqual(rubric.map(({ id }) => id));
+    first!.critique.verdicts.forEach(({ score }) => {
+      expect(score).toBeGreaterThanOrEqual(55);
+      expect(score).toBeLessThanOrEqual(95);
+    });
+    expect(first!.critique.score).toBe(IterationCritic.combine(first!.critique.verdicts));
+    expect(first!.critique.summary).toContain(`against ${rubric.length} criteria`);
+    expect(first!.tokenUsage.totalTokens).toBeGreaterThan(0);
+  });
+  
+  it('builds the rubric without duplicate criteria', () => {
+    const wave = planTestWave('/tmp/critic-test');
+    const rubric = IterationCritic.rubric(wave.agentAssignments[0], wave);
+    const keys = rubric.map(({ criterion }) => criterion.toLowerCase());
+    
+    expect(rubric.length).toBeGreaterThan(0);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(rubric.map(({ id }) => id)).toEqual(rubric.map((_, index) => `c${index + 1}`));
+    expect(rubric[0].source).toBe('SOPHISTICATION');
+  });
+  
+  it('weighs each source equally however many criteria it has', () => {
+    expect(IterationCritic.combine([
+      verdict('c1', 'FUNCTIONAL', 100),
+      verdict('c2', 'FUNCTIONAL', 100),
+      verdict('c3', 'FUNCTIONAL', 100),
+      verdict('c4', 'DESIGN', 0)
+    ])).toBe(50);
+  });
+  
+  describe('parseVerdict', () => {
+    const rubric = [
+      { id: 'c1', source: 'FUNCTIONAL' as const, criterion: 'Works' },
+      { id: 'c2', source: 'DESIGN' as const, criterion: 'Looks good' }
+    ];
+    
+    it('reads a fenced verdict, clamping scores and ignoring unknown or repeated ids', () => {
+      const text = 'Here is my verdict:\n```json\n' + JSON.stringify({
+        criteria: [
+          { id: 'c1', score: 120.4, rationale: ' Complete ' },
+          { id: 'c1', score: 10 },
+          { id: 'c9', score: 50 },
+          { id: 'c2', score: -5 }
+        ],
+        summary: ' Solid '
+      }) + '\n```';
+      
+      const { verdicts, summary } = IterationCritic.parseVerdict(text, rubric);
+      
+      expect(verdicts).toEqual([
+        { ...rubric[0], score: 100, rationale: 'Complete' },
+        { ...rubric[1], score: 0, rationale: '' }
+      ]);
+      expect(summary).toBe('Solid');
+    });
+    
+    it('rejects verdicts it cannot use', () => {
+      expect(() => IterationCritic.parseVerdict('no verdict here', rubric)).toThrow('contains no JSON object');
+      expect(() => IterationCritic.parseVerdict('{"criteria": "c1"}', rubric)).toThrow('does not match the expected format');
+      expect(() => IterationCritic.parseVerdict('{"criteria": [{"id": "c9", "score": 50}]}', rubric))
+        .toThrow('scored none of the rubric criteria');
+    });
+  });
+});
@@ -0,0 +1,219 @@
+// Iteration Critic - Rubric-Based Quality Scoring Through an Executor
+
+import { basename, extname } from 'node:path';
+import { rm } from 'node:fs/promises';
+import { z } from 'zod';
+import {
+  AgentAssignment,
+  AgentExecutor,
+  CriterionVerdict,
+  Critique,
+  CritiqueCriterion,
+  CritiqueSource,
+  GenerationWave,
+  QualityStandards,
+  TokenUsage
+} from '../types/index.js';
+import { stripCodeFence } from '../executors/responseParsing.js';
+
+export interface CritiqueRequest {
+  content: string;
+  outputPath: string;
+  assignment: AgentAssignment;
+  wave: GenerationWave;
+  timeoutMs?: number;
+}
+
+export interface CritiqueOutcome {
+  critique: Critique;
+  tokenUsage: TokenUsage;
+}
+
+const STANDARD_SOURCES: Array<[keyof QualityStandards, CritiqueSource]> = [
+  ['functionalRequirements', 'FUNCTIONAL'],
+  ['designRequirements', 'DESIGN'],
+  ['performanceRequirements', 'PERFORMANCE'],
+  ['uniquenessRequirements', 'UNIQUENESS'],
+  ['domainSpecificRequirements', 'DOMAIN_SPECIFIC']
+];
+
+const SOURCE_LABELS: Record<CritiqueSource, string> = {
+  SOPHISTICATION: 'Sophistication expectation',
+  SUCCESS_CRITERIA: 'Success criterion',
+  FUNCTIONAL: 'Functional requirement',
+  DESIGN: 'Design requirement',
+  PERFORMANCE: 'Performance requirement',
+  UNIQUENESS: 'Uniqueness requirement',
+  DOMAIN_SPECIFIC: 'Domain requirement'
+};
+
+// Artifacts beyond this size are truncated in the critic prompt
+const MAX_ARTIFACT_CHARACTERS = 60000;
+
+const VerdictSchema = z.object({
+  criteria: z.array(z.object({
+    id: z.string(),
+    score: z.number(),
+    rationale: z.string().optional()
+  })),
+  summary: z.string().optional()
+});
+
+export class IterationCritic {
+  private executor: AgentExecutor;
+  
+  constructor(executor: AgentExecutor) {
+    this.executor = executor;
+  }
+  
+  /**
+   * Criteria an iteration is judged against, without duplicates across sources
+   */
+  static rubric(assignment: AgentAssignment, wave: GenerationWave): CritiqueCriterion[] {
+    const entries: Array<[CritiqueSource, string[]]> = [
+      ['SOPHISTICATION', wave.sophisticationLevel.qualityExpectations],
+      ['SUCCESS_CRITERIA', wave.specification.successCriteria],
+      ...STANDARD_SOURCES.map(([key, source]): [CritiqueSource, string[]] => [source, assignment.qualityStandards[key]])
+    ];
+    
+    const seen = new Set<string>();
+    const rubric: CritiqueCriterion[] = [];
+    for (const [source, criteria] of entries) {
+      for (const criterion of criteria) {
+        const key = criterion.trim().toLowerCase();
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        rubric.push({ id: `c${rubric.length + 1}`, source, criterion: criterion.trim() });
+      }
+    }
+    return rubric;
+  }
+  
+  /**
+   * Ask the critic executor for a per-criterion verdict on an artifact
+   *
+   * Returns undefined when the rubric is empty; throws when the verdict cannot be parsed.
+   */
+  async critique(request: CritiqueRequest): Promise<CritiqueOutcome | undefined> {
+    const rubric = IterationCritic.rubric(request.assignment, request.wave);
+    if (rubric.length === 0) {
+      return undefined;
+    }
+    
+    // File-based executors write the verdict next to the artifact rather than over it
+    const verdictPath = `${request.outputPath}.critique.json`;
+    try {
+      const execution = await this.executor.execute({
+        prompt: IterationCritic.buildPrompt(request, rubric),
+        assignment: request.assignment,
+        wave: request.wave,
+        outputPath: verdictPath,
+        timeoutMs: request.timeoutMs,
+        signal: request.timeoutMs ? AbortSignal.timeout(request.timeoutMs) : undefined,
+        rubric
+      });
+      
+      const { verdicts, summary } = IterationCritic.parseVerdict(execution.content, rubric);
+      return {
+        critique: {
+          score: IterationCritic.combine(verdicts),
+          summary,
+          verdicts,
+          model: execution.model
+        },
+        tokenUsage: execution.tokenUsage
+      };
+    } finally {
+      await rm(verdictPath, { force: true });
+    }
+  }
+  
+  /**
+   * Parse a JSON verdict, keeping scores for known criteria clamped to 0-100
+   */
+  static parseVerdict(text: string, rubric: CritiqueCriterion[]): { verdicts: CriterionVerdict[]; summary: string } {
+    const parsed = VerdictSchema.safeParse(this.extractJson(text));
+    if (!parsed.success) {
+      throw new Error(`Critic verdict does not match the expected format: ${parsed.error.issues[0]?.message}`);
+    }
+    
+    const byId = new Map(rubric.map(criterion => [criterion.id, criterion]));
+    const verdicts: CriterionVerdict[] = [];
+    for (const entry of parsed.data.criteria) {
+      const criterion = byId.get(entry.id.trim());
+      if (!criterion || verdicts.some(verdict => verdict.id === criterion.id)) continue;
+      verdicts.push({
+        ...criterion,
+        score: Math.min(100, Math.max(0, Math.round(entry.score))),
+        rationale: entry.rationale?.trim() ?? ''
+      });
+    }
+    if (verdicts.length === 0) {
+      throw new Error('Critic verdict scored none of the rubric criteria');
+    }
+    
+    return { verdicts, summary: parsed.data.summary?.trim() ?? '' };
+  }
+  
+  /**
+   * Combine verdicts into one score; each source weighs equally however many criteria it has
+   */
+  static combine(verdicts: CriterionVerdict[]): number {
+    const bySource = new Map<CritiqueSource, number[]>();
+    verdicts.forEach(verdict => bySource.set(verdict.source, [...(bySource.get(verdict.source) || []), verdict.score]));
+    
+    const means = Array.from(bySource.values()).map(scores => scores.reduce((sum, score) => sum + score, 0) / scores.length);
+    return Math.round(means.reduce((sum, mean) => sum + mean, 0) / means.length);
+  }
+  
+  private static buildPrompt(request: CritiqueRequest, rubric: CritiqueCriterion[]): string {
+    const { assignment, wave } = request;
+    const level = wave.sophisticationLevel;
+    const truncated = request.content.length > MAX_ARTIFACT_CHARACTERS;
+    const content = truncated ? request.content.slice(0, MAX_ARTIFACT_CHARACTERS) : request.content;
+    const longestFence = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longestFence + 1);
+    
+    return `# ITERATION CRITIQUE
+
+You are a strict reviewer. Judge iteration ${assignment.iterationNumber} of "${wave.specification.name}" (${wave.specification.domain.subcategory}) against the rubric below.
+It was generated at the ${level.name} sophistication level (level ${level.level}): ${level.description}
+Innovation focus: ${assignment.uniqueDirective.innovationFocus}
+
+## ARTIFACT: ${basename(request.outputPath)}${truncated ? ` (first ${MAX_ARTIFACT_CHARACTERS} characters)` : ''}
+
+${fence}${extname(request.outputPath).slice(1)}
+${content}
+${fence}
+
+## RUBRIC
+
+Score each criterion from 0 (not met) to 100 (fully met), judging only what the artifact actually contains.
+
+${rubric.map(criterion => `- ${criterion.id} [${SOURCE_LABELS[criterion.source]}]: ${criterion.criterion}`).join('\n')}
+
+## RESPONSE FORMAT
+
+Respond with a single JSON object and nothing else. Include every criterion id exactly once:
+{"criteria": [{"id": "c1", "score": 80, "rationale": "One or two sentences citing the artifact"}], "summary": "Overall critique in a few sentences"}`;
+  }
+  
+  // Models sometimes wrap the object in a code fence or surround it with prose
+  private static extractJson(text: string): unknown {
+    const unfenced = stripCodeFence(text).trim();
+    try {
+      return JSON.parse(unfenced);
+    } catch {
+      const start = unfenced.indexOf('{');
+      const end = unfenced.lastIndexOf('}');
+      if (start < 0 || end <= start) {
+        throw new Error('Critic response contains no JSON object');
+      }
+      try {
+        return JSON.parse(unfenced.slice(start, end + 1));
+      } catch (error) {
+        throw new Error(`Critic response is not valid JSON: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,72 @@
+// Functional Test Runner Tests - Snippets and Commands Against Artifacts
+
+import { Sandbox } from './sandbox.js';
+import { FunctionalTestRunner } from './functionalTests.js';
+import { ValidationRuleEngine } from './ruleEngine.js';
+
+const artifact = 'export const add = (a: number, b: number): number => a + b;\n';
+const outputPath = '/tmp/functional-tests/math_1.ts';
+
+function snippet(assertion: string): string {
+  return `import test from 'node:test';
+import assert from 'node:assert';
+const { add } = await import(process.env.INFINITE_LOOP_ARTIFACT_MODULE);
+test('adds', () => assert.strictEqual(add(1, 2), 3));
+test('checks', () => ${assertion});
+`;
+}
+
+describe('FunctionalTestRunner', () => {
+  afterEach(() => {
+    Sandbox['namespaceProbe'] = undefined;
+  });
+  
+  it('runs snippets against the transpiled artifact and reads node:test counts', async () => {
+    const passing = await FunctionalTestRunner.run({ kind: 'TEST', snippet: snippet('assert.ok(true)') }, artifact, outputPath);
+    const failing = await FunctionalTestRunner.run({ kind: 'TEST', snippet: snippet('assert.ok(false)') }, artifact, outputPath);
+    
+    expect(passing).toMatchObject({ passed: true, tests: { passed: 2, failed: 0 } });
+    expect(failing).toMatchObject({ passed: false, tests: { passed: 1, failed: 1 } });
+    expect(failing.message).toMatch(/^Tests exited with code 1: 1 passed, 1 failed \(network isolation: (namespace|guard)\)$/);
+  });
+  
+  it('runs commands with the artifact copy in place of {file}', async () => {
+    const check = {
+      kind: 'TEST' as const,
+      command: process.execPath,
+      args: ['-e', 'process.exit(require("fs").readFileSync(process.argv[1], "utf8").includes("add") ? 0 : 2)', '{file}']
+    };
+    
+    const outcome = await FunctionalTestRunner.run(check, artifact, outputPath);
+    
+    expect(outcome).toMatchObject({ passed: true, tests: { passed: 1, failed: 0 } });
+  });
+  
+  it('fails non-Node commands when the network cannot be isolated', async () => {
+    Sandbox['namespaceProbe'] = Promise.resolve(false);
+    const previous = process.env.INFINITE_LOOP_ALLOW_COMMAND_RULES;
+    process.env.INFINITE_LOOP_ALLOW_COMMAND_RULES = 'true';
+    
+    const [evaluation] = await ValidationRuleEngine.evaluate([{
+      type: 'FUNCTIONAL',
+      description: 'Runs the shell test',
+      validator: 'sh',
+      severity: 'ERROR',
+      check: { kind: 'TEST', command: '/bin/sh', args: ['-c', 'exit 0'] }
+    }], { content: artifact, outputPath, outputDirectory: '/tmp/functional-tests' });
+    
+    if (previous === undefined) {
+      delete process.env.INFINITE_LOOP_ALLOW_COMMAND_RULES;
+    } else {
+      process.env.INFINITE_LOOP_ALLOW_COMMAND_RULES = previous;
+    }
+    expect(evaluation).toMatchObject({ passed: false });
+    expect(evaluation.message).toMatch(/^Check could not run: Cannot isolate "\/bin\/sh" from the network/);
+    expect(evaluation.tests).toBeUndefined();
+  });
+  
+  it('scores the mean pass rate of the functional tests that ran', () => {
+    expect(FunctionalTestRunner.score([])).toBeUndefined();
+    expect(FunctionalTestRunner.score([{ passed: 3, failed: 1 }, { passed: 0, failed: 0 }, { passed: 1, failed: 0 }])).toBe(58);
+  });
+});
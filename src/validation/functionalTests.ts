@@ -0,0 +1,126 @@
+// Functional Test Runner - Spec-Provided Tests Against Generated Iterations
+
+import ts from 'typescript';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
+import { FunctionalTestCounts, ValidationCheck } from '../types/index.js';
+import { Sandbox, SandboxLimits } from './sandbox.js';
+import { SyntaxChecker } from './syntaxChecker.js';
+
+export type TestCheck = Extract<ValidationCheck, { kind: 'TEST' }>;
+
+export interface FunctionalTestOutcome {
+  passed: boolean;
+  message: string;
+  output: string;
+  tests: FunctionalTestCounts;
+}
+
+export const DEFAULT_TEST_LIMITS: SandboxLimits = {
+  timeoutMs: 30000,
+  memoryMb: 512,
+  cpuSeconds: 10
+};
+
+const MODULE_FILE_NAME = 'artifact.mjs';
+const SNIPPET_FILE_NAME = 'artifact.test.mjs';
+
+// Summary lines of node:test (TAP and spec reporters) and mocha-style runners
+const COUNT_PATTERNS: Array<{ passed: RegExp; failed: RegExp }> = [
+  { passed: /^(?:#|ℹ)\s*pass (\d+)/m, failed: /^(?:#|ℹ)\s*fail (\d+)/m },
+  { passed: /(\d+) passing/, failed: /(\d+) failing/ }
+];
+
+export class FunctionalTestRunner {
+  /**
+   * Run a test snippet or command against a copy of the artifact in a fresh sandbox directory
+   *
+   * Script artifacts are also transpiled to artifact.mjs so snippets can import them directly.
+   */
+  static async run(check: TestCheck, content: string, outputPath: string, format?: string): Promise<FunctionalTestOutcome> {
+    const workingDirectory = await mkdtemp(join(tmpdir(), 'infinite-loop-test-'));
+    try {
+      const artifactPath = join(workingDirectory, basename(outputPath));
+      await writeFile(artifactPath, content, 'utf8');
+      
+      const env: NodeJS.ProcessEnv = { INFINITE_LOOP_ARTIFACT: artifactPath };
+      const language = SyntaxChecker.languageFor(outputPath, format);
+      if (language && language !== 'json' && language !== 'markdown') {
+        const modulePath = join(workingDirectory, MODULE_FILE_NAME);
+        await writeFile(modulePath, this.transpile(content, language), 'utf8');
+        env.INFINITE_LOOP_ARTIFACT_MODULE = modulePath;
+      }
+      
+      let command: string;
+      let args: string[];
+      if (check.snippet !== undefined) {
+        await writeFile(join(workingDirectory, SNIPPET_FILE_NAME), check.snippet, 'utf8');
+        command = process.execPath;
+        args = [SNIPPET_FILE_NAME];
+      } else {
+        command = check.command!;
+        args = (check.args || []).map(arg => arg.replace(/\{file\}/g, artifactPath).replace(/\{dir\}/g, workingDirectory));
+      }
+      
+      const result = await Sandbox.run(command, args, workingDirectory, env, {
+        timeoutMs: check.timeoutMs ?? DEFAULT_TEST_LIMITS.timeoutMs,
+        memoryMb: check.memoryMb ?? DEFAULT_TEST_LIMITS.memoryMb,
+        cpuSeconds: check.cpuSeconds ?? DEFAULT_TEST_LIMITS.cpuSeconds
+      });
+      
+      const passed = result.exitCode === 0 && !result.timedOut;
+      const tests = this.parseCounts(result.output) ?? { passed: passed ? 1 : 0, failed: passed ? 0 : 1 };
+      const status = result.timedOut
+        ? `timed out after ${check.timeoutMs ?? DEFAULT_TEST_LIMITS.timeoutMs}ms`
+        : result.exitCode !== null ? `exited with code ${result.exitCode}` : `killed by ${result.signal}`;
+      
+      return {
+        passed,
+        message: `Tests ${status}: ${tests.passed} passed, ${tests.failed} failed (network isolation: ${result.networkIsolation})`,
+        output: result.output,
+        tests
+      };
+    } finally {
+      await rm(workingDirectory, { recursive: true, force: true });
+    }
+  }
+  
+  /**
+   * Share of passing tests across functional test evaluations as a 0-100 score, if any ran
+   */
+  static score(results: FunctionalTestCounts[]): number | undefined {
+    if (results.length === 0) {
+      return undefined;
+    }
+    const ratios = results.map(({ passed, failed }) => passed + failed > 0 ? passed / (passed + failed) : 0);
+    return Math.round(ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length * 100);
+  }
+  
+  private static parseCounts(output: string): FunctionalTestCounts | undefined {
+    for (const pattern of COUNT_PATTERNS) {
+      const passed = output.match(pattern.passed);
+      const failed = output.match(pattern.failed);
+      if (passed || failed) {
+        return {
+          passed: passed ? parseInt(passed[1], 10) : 0,
+          failed: failed ? parseInt(failed[1], 10) : 0
+        };
+      }
+    }
+    return undefined;
+  }
+  
+  // JSX compiles to React.createElement, so components run wherever React is importable
+  private static transpile(content: string, language: string): string {
+    return ts.transpileModule(content, {
+      fileName: `artifact.${language === 'typescript' ? 'ts' : language === 'javascript' ? 'js' : language}`,
+      compilerOptions: {
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.React,
+        esModuleInterop: true
+      }
+    }).outputText;
+  }
+}
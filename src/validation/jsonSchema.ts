@@ -0,0 +1,213 @@
+// JSON Schema Validator - Dependency-Free Subset for Artifact Conformance Checks
+
+type Schema = Record<string, any>;
+
+// Keywords that only annotate a schema and never affect validation
+const ANNOTATION_KEYWORDS = new Set([
+  '$schema', '$id', '$comment', 'title', 'description', 'default', 'examples', 'format', 'deprecated', 'readOnly', 'writeOnly'
+]);
+
+export const SUPPORTED_KEYWORDS = new Set([
+  'type', 'enum', 'const',
+  'properties', 'required', 'additionalProperties', 'minProperties', 'maxProperties',
+  'items', 'minItems', 'maxItems', 'uniqueItems',
+  'minLength', 'maxLength', 'pattern',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf',
+  'allOf', 'anyOf', 'oneOf', 'not'
+]);
+
+const MAX_ERRORS = 20;
+
+export class JsonSchemaValidator {
+  /**
+   * Validate a value against a schema, returning one message per violation
+   */
+  static validate(value: unknown, schema: Schema): string[] {
+    const errors: string[] = [];
+    this.check(value, schema, '$', errors);
+    return errors.slice(0, MAX_ERRORS);
+  }
+  
+  /**
+   * Report keywords this validator cannot evaluate, such as $ref
+   */
+  static unsupportedKeywords(schema: Schema, path: string = '$'): string[] {
+    const unsupported: string[] = [];
+    for (const [keyword, child] of Object.entries(schema)) {
+      if (!SUPPORTED_KEYWORDS.has(keyword) && !ANNOTATION_KEYWORDS.has(keyword)) {
+        unsupported.push(`${path}.${keyword}`);
+        continue;
+      }
+      if (keyword === 'properties' && this.isObject(child)) {
+        Object.entries(child).forEach(([name, propertySchema]) => {
+          if (this.isObject(propertySchema)) unsupported.push(...this.unsupportedKeywords(propertySchema, `${path}.properties.${name}`));
+        });
+      } else if (['items', 'additionalProperties', 'not'].includes(keyword) && this.isObject(child)) {
+        unsupported.push(...this.unsupportedKeywords(child, `${path}.${keyword}`));
+      } else if (['allOf', 'anyOf', 'oneOf'].includes(keyword) && Array.isArray(child)) {
+        child.forEach((subschema, index) => {
+          if (this.isObject(subschema)) unsupported.push(...this.unsupportedKeywords(subschema, `${path}.${keyword}[${index}]`));
+        });
+      }
+    }
+    return unsupported;
+  }
+  
+  private static check(value: unknown, schema: Schema, path: string, errors: string[]): void {
+    if (errors.length >= MAX_ERRORS) return;
+    
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => this.hasType(value, type))) {
+        errors.push(`${path}: expected ${types.join(' or ')}, got ${this.typeOf(value)}`);
+        return; // Remaining keywords assume the declared type
+      }
+    }
+    if (schema.enum !== undefined && !schema.enum.some((option: unknown) => this.equal(option, value))) {
+      errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+    }
+    if (schema.const !== undefined && !this.equal(schema.const, value)) {
+      errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+    }
+    
+    if (typeof value === 'string') this.checkString(value, schema, path, errors);
+    if (typeof value === 'number') this.checkNumber(value, schema, path, errors);
+    if (Array.isArray(value)) this.checkArray(value, schema, path, errors);
+    if (this.isObject(value)) this.checkObject(value, schema, path, errors);
+    
+    this.checkCombinators(value, schema, path, errors);
+  }
+  
+  private static checkString(value: string, schema: Schema, path: string, errors: string[]): void {
+    const length = Array.from(value).length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(`${path}: must match /${schema.pattern}/`);
+    }
+  }
+  
+  private static checkNumber(value: number, schema: Schema, path: string, errors: string[]): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+    if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+      errors.push(`${path}: must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+  
+  private static checkArray(value: unknown[], schema: Schema, path: string, errors: string[]): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems && value.some((item, index) => value.findIndex(other => this.equal(item, other)) !== index)) {
+      errors.push(`${path}: items must be unique`);
+    }
+    if (this.isObject(schema.items)) {
+      value.forEach((item, index) => this.check(item, schema.items, `${path}[${index}]`, errors));
+    }
+  }
+  
+  private static checkObject(value: Record<string, unknown>, schema: Schema, path: string, errors: string[]): void {
+    const keys = Object.keys(value);
+    const properties: Record<string, Schema> = schema.properties || {};
+    
+    for (const name of schema.required || []) {
+      if (!(name in value)) {
+        errors.push(`${path}: missing required property "${name}"`);
+      }
+    }
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+      errors.push(`${path}: must have at least ${schema.minProperties} properties`);
+    }
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+      errors.push(`${path}: must have at most ${schema.maxProperties} properties`);
+    }
+    
+    for (const key of keys) {
+      const childPath = `${path}.${key}`;
+      if (properties[key]) {
+        this.check(value[key], properties[key], childPath, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${childPath}: additional property not allowed`);
+      } else if (this.isObject(schema.additionalProperties)) {
+        this.check(value[key], schema.additionalProperties, childPath, errors);
+      }
+    }
+  }
+  
+  private static checkCombinators(value: unknown, schema: Schema, path: string, errors: string[]): void {
+    const passes = (subschema: Schema) => this.validate(value, subschema).length === 0;
+    
+    for (const subschema of schema.allOf || []) {
+      this.check(value, subschema, path, errors);
+    }
+    if (schema.anyOf && !schema.anyOf.some(passes)) {
+      errors.push(`${path}: must match at least one schema in anyOf`);
+    }
+    if (schema.oneOf) {
+      const matches = schema.oneOf.filter(passes).length;
+      if (matches !== 1) {
+        errors.push(`${path}: must match exactly one schema in oneOf (matched ${matches})`);
+      }
+    }
+    if (this.isObject(schema.not) && passes(schema.not)) {
+      errors.push(`${path}: must not match the schema in not`);
+    }
+  }
+  
+  private static hasType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return this.isObject(value);
+      case 'null':
+        return value === null;
+      default:
+        return typeof value === type; // string, boolean
+    }
+  }
+  
+  private static typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+  
+  private static isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+  
+  // Structural equality, independent of object key order
+  private static equal(a: unknown, b: unknown): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, index) => this.equal(item, b[index]));
+    }
+    if (this.isObject(a) && this.isObject(b)) {
+      const keys = Object.keys(a);
+      return keys.length === Object.keys(b).length && keys.every(key => key in b && this.equal(a[key], b[key]));
+    }
+    return a === b;
+  }
+}
@@ -0,0 +1,178 @@
+// Validation Rule Engine Tests - Executable Checks Against Artifacts
+
+import { jest } from '@jest/globals';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ValidationCheck, ValidationRule, WaveResult } from '../types/index.js';
+import { ValidatedArtifact, ValidationRuleEngine } from './ruleEngine.js';
+
+const markdown = '# Search Component\n\nIntro.\n\nUsage\n-----\n\nTODO: examples\n';
+
+function rule(check: ValidationCheck | undefined, overrides: Partial<ValidationRule> = {}): ValidationRule {
+  return { type: 'SEMANTIC', description: 'rule', validator: 'test', severity: 'ERROR', check, ...overrides };
+}
+
+function artifact(content: string, outputPath = '/tmp/rule-engine-test/iteration_1.md'): ValidatedArtifact {
+  return { content, outputPath, outputDirectory: '/tmp/rule-engine-test' };
+}
+
+async function evaluateOne(check: ValidationCheck, content = markdown, outputPath?: string) {
+  const [evaluation] = await ValidationRuleEngine.evaluate([rule(check)], artifact(content, outputPath));
+  return evaluation;
+}
+
+describe('ValidationRuleEngine', () => {
+  it('checks patterns that must or must not match', async () => {
+    expect(await evaluateOne({ kind: 'MUST_MATCH', pattern: 'search', flags: 'i' }))
+      .toMatchObject({ passed: true, message: 'Matches /search/' });
+    expect(await evaluateOne({ kind: 'MUST_MATCH', pattern: 'search' }))
+      .toMatchObject({ passed: false, message: 'Does not match /search/' });
+    expect(await evaluateOne({ kind: 'MUST_NOT_MATCH', pattern: 'TODO' }))
+      .toMatchObject({ passed: false, message: 'Matches /TODO/ at line 8' });
+  });
+  
+  it('checks size limits in bytes and lines', async () => {
+    expect(await evaluateOne({ kind: 'MAX_SIZE', maxLines: 8 })).toMatchObject({ passed: true, message: `${markdown.length} bytes, 8 lines` });
+    expect(await evaluateOne({ kind: 'MAX_SIZE', maxBytes: 10, maxLines: 2 }))
+      .toMatchObject({ passed: false, message: `${markdown.length} bytes exceeds 10, 8 lines exceeds 2` });
+  });
+  
+  it('finds required sections among ATX, setext and HTML headings', async () => {
+    expect(await evaluateOne({ kind: 'REQUIRED_SECTIONS', sections: ['search component', 'USAGE'] }))
+      .toMatchObject({ passed: true });
+    expect(await evaluateOne({ kind: 'REQUIRED_SECTIONS', sections: ['Examples'] }, '<h2>Usage <em>notes</em></h2>'))
+      .toMatchObject({ passed: false, message: 'Missing sections: Examples' });
+    expect(await evaluateOne({ kind: 'REQUIRED_SECTIONS', sections: ['usage notes'] }, '<h2>Usage <em>notes</em></h2>'))
+      .toMatchObject({ passed: true });
+  });
+  
+  it('validates JSON artifacts against a schema', async () => {
+    const schema = { type: 'object', required: ['title'], properties: { title: { type: 'string' } } };
+    
+    expect(await evaluateOne({ kind: 'JSON_SCHEMA', schema }, '{"title": "Search"}')).toMatchObject({ passed: true });
+    expect((await evaluateOne({ kind: 'JSON_SCHEMA', schema }, '{"title": 1}')).passed).toBe(false);
+    expect((await evaluateOne({ kind: 'JSON_SCHEMA', schema }, '{')).message).toMatch(/^Not valid JSON/);
+  });
+  
+  it('parses SYNTAX rules in the language of the artifact', async () => {
+    const [valid] = await ValidationRuleEngine.evaluate(
+      [rule(undefined, { type: 'SYNTAX' })],
+      artifact('export const a: number = 1;\n', '/tmp/rule-engine-test/iteration_1.ts')
+    );
+    const invalid = await evaluateOne({ kind: 'SYNTAX' }, '{"a": }', '/tmp/rule-engine-test/iteration_1.json');
+    
+    expect(valid).toMatchObject({ type: 'SYNTAX', passed: true, message: 'Parsed as typescript without errors' });
+    expect(invalid.passed).toBe(false);
+    expect(invalid.diagnostics?.length).toBeGreaterThan(0);
+  });
+  
+  it('evaluates UNIQUENESS rules against the uniqueness report', async () => {
+    const rules = [rule(undefined, { type: 'UNIQUENESS', threshold: 70, severity: 'WARNING' })];
+    const [evaluation] = await ValidationRuleEngine.evaluate(rules, {
+      ...artifact(markdown),
+      uniqueness: {
+        score: 40,
+        nearestNeighbor: { iterationNumber: 3, filePath: 'iteration_3.md', similarity: 0.6 },
+        comparedIterations: 3,
+        threshold: 70,
+        belowThreshold: true
+      }
+    });
+    
+    expect(evaluation).toMatchObject({
+      severity: 'WARNING',
+      passed: false,
+      message: 'Uniqueness score 40 is below threshold 70; iteration 3 is 60% similar'
+    });
+  });
+  
+  it('skips descriptive rules without a check', async () => {
+    expect(await ValidationRuleEngine.evaluate([rule(undefined, { type: 'QUALITY' })], artifact(markdown))).toEqual([]);
+  });
+  
+  describe('COMMAND checks', () => {
+    const previous = process.env.INFINITE_LOOP_ALLOW_COMMAND_RULES;
+    let directory: string;
+    
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'rule-engine-'));
+    });
+    
+    afterEach(async () => {
+      if (previous === undefined) {
+        delete process.env.INFINITE_LOOP_ALLOW_COMMAND_RULES;
+      } else {
+        process.env.INFINITE_LOOP_ALLOW_COMMAND_RULES = previous;
+      }
+      await rm(directory, { recursive: true, force: true });
+    });
+    
+    const check: ValidationCheck = {
+      kind: 'COMMAND',
+      command: process.execPath,
+      args: ['-e', 'process.exit(require("fs").readFileSync(process.argv[1], "utf8").includes("Usage") ? 0 : 3)', '{file}']
+    };
+    
+    it('are skipped with a warning unless command rules are allowed', async () => {
+      delete process.env.INFINITE_LOOP_ALLOW_COMMAND_RULES;
+      const warn = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const rules = [rule(check, { severity: 'CRITICAL' }), rule({ kind: 'TEST', snippet: 'assert(true)' })];
+      
+      const evaluations = await ValidationRuleEngine.evaluate(rules, artifact(markdown));
+      await ValidationRuleEngine.evaluate(rules, artifact(markdown));
+      const warnings = warn.mock.calls.map(([message]) => message);
+      warn.mockRestore();
+      
+      expect(evaluations.map(({ skipped, message }) => ({ skipped, message }))).toEqual([
+        { skipped: true, message: 'COMMAND rules are disabled; set INFINITE_LOOP_ALLOW_COMMAND_RULES=true to run them' },
+        { skipped: true, message: 'TEST rules are disabled; set INFINITE_LOOP_ALLOW_COMMAND_RULES=true to run them' }
+      ]);
+      expect(ValidationRuleEngine.failures(evaluations, 'ERROR', 'CRITICAL')).toEqual([]);
+      expect(warnings).toEqual([
+        'Skipping COMMAND validation rules; set INFINITE_LOOP_ALLOW_COMMAND_RULES=true to run them',
+        'Skipping TEST validation rules; set INFINITE_LOOP_ALLOW_COMMAND_RULES=true to run them'
+      ]);
+    });
+    
+    it('pass only when the command exits 0', async () => {
+      process.env.INFINITE_LOOP_ALLOW_COMMAND_RULES = 'true';
+      const outputPath = join(directory, 'iteration_1.md');
+      await writeFile(outputPath, markdown, 'utf8');
+      await writeFile(join(directory, 'iteration_2.md'), 'empty', 'utf8');
+      
+      const passing = await ValidationRuleEngine.evaluate([rule(check)], { content: markdown, outputPath, outputDirectory: directory });
+      const failing = await ValidationRuleEngine.evaluate([rule(check)], {
+        content: 'empty',
+        outputPath: join(directory, 'iteration_2.md'),
+        outputDirectory: directory
+      });
+      
+      expect(passing[0].passed).toBe(true);
+      expect(failing[0]).toMatchObject({ passed: false });
+      expect(failing[0].message).toContain('exited with code 3');
+    });
+  });
+  
+  it('reports malformed checks', () => {
+    expect(ValidationRuleEngine.validateCheck({ kind: 'MUST_MATCH', pattern: '(' })[0]).toMatch(/^invalid regular expression/);
+    expect(ValidationRuleEngine.validateCheck({ kind: 'MAX_SIZE' })).toEqual(['MAX_SIZE requires maxBytes or maxLines']);
+    expect(ValidationRuleEngine.validateCheck({ kind: 'JSON_SCHEMA', schema: { $ref: '#/a' } }))
+      .toEqual(['unsupported JSON Schema keyword $.$ref']);
+    expect(ValidationRuleEngine.validateCheck({ kind: 'TEST' })).toEqual(['TEST requires exactly one of snippet or command']);
+    expect(ValidationRuleEngine.validateCheck({ kind: 'MUST_NOT_MATCH', pattern: 'a+' })).toEqual([]);
+  });
+  
+  it('stops a wave only on failed CRITICAL rules', () => {
+    const result = (severity: ValidationRule['severity']): WaveResult => ({
+      agentId: 'agent',
+      iterationNumber: 1,
+      success: false,
+      completionTime: 0,
+      validation: [{ rule: 'rule', type: 'SEMANTIC', severity, passed: false, message: 'failed' }]
+    });
+    
+    expect(ValidationRuleEngine.hasCriticalFailure(result('CRITICAL'))).toBe(true);
+    expect(ValidationRuleEngine.hasCriticalFailure(result('ERROR'))).toBe(false);
+  });
+});
@@ -0,0 +1,344 @@
+// Validation Rule Engine - Executable Specification Rules for Written Artifacts
+
+import { spawn } from 'node:child_process';
+import { resolve } from 'node:path';
+import {
+  FunctionalTestCounts,
+  RuleEvaluation,
+  SyntaxDiagnostic,
+  SyntaxLanguage,
+  UniquenessReport,
+  ValidationCheck,
+  ValidationRule,
+  WaveResult
+} from '../types/index.js';
+import { JsonSchemaValidator } from './jsonSchema.js';
+import { DEFAULT_UNIQUENESS_THRESHOLD } from './uniquenessScorer.js';
+import { SyntaxChecker } from './syntaxChecker.js';
+import { FunctionalTestRunner } from './functionalTests.js';
+
+export interface ValidatedArtifact {
+  content: string;
+  outputPath: string;
+  outputDirectory: string;
+  format?: string; // outputRequirements.format, used when the extension does not identify the language
+  uniqueness?: UniquenessReport;
+}
+
+type CheckOutcome = {
+  passed: boolean;
+  message: string;
+  skipped?: boolean;
+  diagnostics?: SyntaxDiagnostic[];
+  tests?: FunctionalTestCounts;
+  output?: string;
+};
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 60000;
+const OUTPUT_TAIL_LENGTH = 1000;
+const COMMAND_ENV_ALLOWLIST = ['PATH', 'HOME', 'LANG', 'TERM'];
+
+export class ValidationRuleEngine {
+  // Check kinds already warned about being disabled, so the warning is logged once per process
+  private static warnedDisabled: Set<ValidationCheck['kind']> = new Set();
+  
+  /**
+   * Evaluate every executable rule against an artifact; descriptive-only rules are skipped
+   *
+   * UNIQUENESS rules without a check are evaluated against the artifact's uniqueness report, and
+   * SYNTAX rules without a check parse the artifact when its language can be inferred. COMMAND and TEST
+   * rules are reported as skipped unless INFINITE_LOOP_ALLOW_COMMAND_RULES is "true".
+   */
+  static async evaluate(rules: ValidationRule[], artifact: ValidatedArtifact): Promise<RuleEvaluation[]> {
+    const evaluations: RuleEvaluation[] = [];
+    
+    for (const rule of rules) {
+      let outcome: CheckOutcome | undefined;
+      if (rule.check && this.runsCode(rule.check) && !this.codeExecutionAllowed()) {
+        outcome = this.skipDisabled(rule.check);
+      } else if (rule.check) {
+        outcome = await this.runCheck(rule.check, artifact).catch(error => ({
+          passed: false,
+          message: `Check could not run: ${error instanceof Error ? error.message : error}`
+        }));
+      } else if (rule.type === 'UNIQUENESS' && artifact.uniqueness) {
+        outcome = this.checkUniqueness(rule, artifact.uniqueness);
+      } else if (rule.type === 'SYNTAX') {
+        const language = SyntaxChecker.languageFor(artifact.outputPath, artifact.format);
+        outcome = language ? this.checkSyntax(language, artifact.content) : undefined;
+      }
+      
+      if (outcome) {
+        evaluations.push({
+          rule: rule.description,
+          type: rule.type,
+          severity: rule.severity,
+          ...outcome
+        });
+      }
+    }
+    return evaluations;
+  }
+  
+  /**
+   * Failed evaluations of a given severity; skipped rules never fail
+   */
+  static failures(evaluations: RuleEvaluation[], ...severities: ValidationRule['severity'][]): RuleEvaluation[] {
+    return evaluations.filter(evaluation => !evaluation.passed && !evaluation.skipped && severities.includes(evaluation.severity));
+  }
+  
+  /**
+   * Whether a result failed a CRITICAL rule, which stops its wave
+   */
+  static hasCriticalFailure(result: WaveResult): boolean {
+    return this.failures(result.validation || [], 'CRITICAL').length > 0;
+  }
+  
+  /**
+   * Quality score from the pass rate of TEST checks, or undefined when none ran
+   */
+  static functionalScore(evaluations: RuleEvaluation[]): number | undefined {
+    return FunctionalTestRunner.score(
+      evaluations.filter(evaluation => evaluation.tests).map(evaluation => evaluation.tests!)
+    );
+  }
+  
+  /**
+   * Format a failed evaluation for notes and error messages
+   */
+  static describe(evaluation: RuleEvaluation): string {
+    return `${evaluation.severity} ${evaluation.type} "${evaluation.rule}": ${evaluation.message}`;
+  }
+  
+  /**
+   * Format failed evaluations, with every diagnostic on its own line, as feedback for another attempt
+   */
+  static feedback(evaluations: RuleEvaluation[]): string {
+    return evaluations
+      .map(evaluation => [
+        `- ${this.describe(evaluation)}`,
+        ...(evaluation.diagnostics || []).map(diagnostic => `  - ${SyntaxChecker.format(diagnostic)}`)
+      ].join('\n'))
+      .join('\n');
+  }
+  
+  /**
+   * Report checks that are malformed before any artifact is generated
+   */
+  static validateCheck(check: ValidationCheck): string[] {
+    switch (check.kind) {
+      case 'MUST_MATCH':
+      case 'MUST_NOT_MATCH':
+        try {
+          new RegExp(check.pattern, check.flags);
+          return [];
+        } catch (error) {
+          return [`invalid regular expression: ${error instanceof Error ? error.message : error}`];
+        }
+      case 'MAX_SIZE':
+        return check.maxBytes === undefined && check.maxLines === undefined
+          ? ['MAX_SIZE requires maxBytes or maxLines']
+          : [];
+      case 'JSON_SCHEMA':
+        return JsonSchemaValidator.unsupportedKeywords(check.schema)
+          .map(keyword => `unsupported JSON Schema keyword ${keyword}`);
+      case 'TEST':
+        return (check.snippet === undefined) === (check.command === undefined)
+          ? ['TEST requires exactly one of snippet or command']
+          : [];
+      default:
+        return [];
+    }
+  }
+  
+  private static async runCheck(check: ValidationCheck, artifact: ValidatedArtifact): Promise<CheckOutcome> {
+    switch (check.kind) {
+      case 'MUST_MATCH': {
+        const matched = new RegExp(check.pattern, check.flags).test(artifact.content);
+        return { passed: matched, message: matched ? `Matches /${check.pattern}/` : `Does not match /${check.pattern}/` };
+      }
+      case 'MUST_NOT_MATCH': {
+        const match = artifact.content.match(new RegExp(check.pattern, check.flags));
+        return match
+          ? { passed: false, message: `Matches /${check.pattern}/ at line ${this.lineOf(artifact.content, match.index ?? 0)}` }
+          : { passed: true, message: `Does not match /${check.pattern}/` };
+      }
+      case 'MAX_SIZE':
+        return this.checkSize(check, artifact.content);
+      case 'REQUIRED_SECTIONS':
+        return this.checkSections(check.sections, artifact.content);
+      case 'JSON_SCHEMA':
+        return this.checkJsonSchema(check.schema, artifact.content);
+      case 'COMMAND':
+        return this.runCommand(check, artifact);
+      case 'TEST':
+        return FunctionalTestRunner.run(check, artifact.content, artifact.outputPath, artifact.format);
+      case 'SYNTAX': {
+        const language = check.language ?? SyntaxChecker.languageFor(artifact.outputPath, artifact.format);
+        return language
+          ? this.checkSyntax(language, artifact.content)
+          : { passed: false, message: `Cannot infer the language of ${artifact.outputPath}; set check.language` };
+      }
+    }
+  }
+  
+  private static checkSyntax(language: SyntaxLanguage, content: string): CheckOutcome {
+    const diagnostics = SyntaxChecker.check(content, language);
+    return diagnostics.length > 0
+      ? {
+          passed: false,
+          message: `${diagnostics.length} ${language} syntax error(s); first at ${SyntaxChecker.format(diagnostics[0])}`,
+          diagnostics
+        }
+      : { passed: true, message: `Parsed as ${language} without errors` };
+  }
+  
+  private static checkUniqueness(rule: ValidationRule, uniqueness: UniquenessReport): { passed: boolean; message: string } {
+    const threshold = rule.threshold ?? DEFAULT_UNIQUENESS_THRESHOLD;
+    const nearest = uniqueness.nearestNeighbor;
+    const detail = nearest
+      ? `; iteration ${nearest.iterationNumber} is ${Math.round(nearest.similarity * 100)}% similar`
+      : '';
+    return {
+      passed: uniqueness.score >= threshold,
+      message: `Uniqueness score ${uniqueness.score} ${uniqueness.score >= threshold ? 'meets' : 'is below'} threshold ${threshold}${detail}`
+    };
+  }
+  
+  private static checkSize(check: { maxBytes?: number; maxLines?: number }, content: string): { passed: boolean; message: string } {
+    const bytes = Buffer.byteLength(content, 'utf8');
+    const lines = content.length === 0 ? 0 : content.replace(/\n$/, '').split('\n').length;
+    const violations: string[] = [];
+    
+    if (check.maxBytes !== undefined && bytes > check.maxBytes) {
+      violations.push(`${bytes} bytes exceeds ${check.maxBytes}`);
+    }
+    if (check.maxLines !== undefined && lines > check.maxLines) {
+      violations.push(`${lines} lines exceeds ${check.maxLines}`);
+    }
+    return violations.length > 0
+      ? { passed: false, message: violations.join(', ') }
+      : { passed: true, message: `${bytes} bytes, ${lines} lines` };
+  }
+  
+  private static checkSections(sections: string[], content: string): { passed: boolean; message: string } {
+    const headings = this.extractHeadings(content);
+    const missing = sections.filter(section =>
+      !headings.some(heading => heading.includes(this.normalizeHeading(section)))
+    );
+    return missing.length > 0
+      ? { passed: false, message: `Missing sections: ${missing.join(', ')}` }
+      : { passed: true, message: `All ${sections.length} sections present` };
+  }
+  
+  // Markdown ATX and setext headings plus HTML <h1>-<h6>
+  private static extractHeadings(content: string): string[] {
+    const headings: string[] = [];
+    const lines = content.split('\n');
+    
+    lines.forEach((line, index) => {
+      const atx = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+      if (atx) {
+        headings.push(atx[1]);
+      } else if (/^\s{0,3}(=+|-+)\s*$/.test(lines[index + 1] || '') && line.trim().length > 0) {
+        headings.push(line);
+      }
+    });
+    for (const [, text] of content.matchAll(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi)) {
+      headings.push(text.replace(/<[^>]+>/g, ''));
+    }
+    return headings.map(heading => this.normalizeHeading(heading));
+  }
+  
+  private static normalizeHeading(text: string): string {
+    return text.replace(/\s+/g, ' ').trim().toLowerCase();
+  }
+  
+  private static checkJsonSchema(schema: Record<string, unknown>, content: string): { passed: boolean; message: string } {
+    let value: unknown;
+    try {
+      value = JSON.parse(content);
+    } catch (error) {
+      return { passed: false, message: `Not valid JSON: ${error instanceof Error ? error.message : error}` };
+    }
+    
+    const errors = JsonSchemaValidator.validate(value, schema);
+    return errors.length > 0
+      ? { passed: false, message: errors.join('; ') }
+      : { passed: true, message: 'Conforms to schema' };
+  }
+  
+  /**
+   * Run a command against the artifact; it passes when the command exits 0
+   *
+   * Commands come from the specification, so evaluate only runs them when INFINITE_LOOP_ALLOW_COMMAND_RULES is "true".
+   */
+  private static runCommand(
+    check: Extract<ValidationCheck, { kind: 'COMMAND' }>,
+    artifact: ValidatedArtifact
+  ): Promise<{ passed: boolean; message: string }> {
+    const file = resolve(artifact.outputPath);
+    const args = (check.args || []).map(arg => arg.replace(/\{file\}/g, file));
+    const env: NodeJS.ProcessEnv = { INFINITE_LOOP_OUTPUT_PATH: file };
+    for (const key of COMMAND_ENV_ALLOWLIST) {
+      if (process.env[key] !== undefined) env[key] = process.env[key];
+    }
+    const timeoutMs = check.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+    
+    return new Promise(resolvePromise => {
+      const child = spawn(check.command, args, { cwd: artifact.outputDirectory, env, stdio: ['ignore', 'pipe', 'pipe'] });
+      let output = '';
+      let timedOut = false;
+      
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, timeoutMs);
+      
+      const collect = (chunk: string) => {
+        output = (output + chunk).slice(-OUTPUT_TAIL_LENGTH);
+      };
+      child.stdout.setEncoding('utf8').on('data', collect);
+      child.stderr.setEncoding('utf8').on('data', collect);
+      
+      child.on('error', error => {
+        clearTimeout(timer);
+        resolvePromise({ passed: false, message: `Failed to start "${check.command}": ${error.message}` });
+      });
+      child.on('close', (code, exitSignal) => {
+        clearTimeout(timer);
+        const tail = output.trim() ? `: ${output.trim()}` : '';
+        if (timedOut) {
+          resolvePromise({ passed: false, message: `"${check.command}" killed after ${timeoutMs}ms timeout${tail}` });
+        } else if (code !== 0) {
+          resolvePromise({ passed: false, message: `"${check.command}" exited with ${code !== null ? `code ${code}` : `signal ${exitSignal}`}${tail}` });
+        } else {
+          resolvePromise({ passed: true, message: `"${check.command}" exited 0` });
+        }
+      });
+    });
+  }
+  
+  // COMMAND and TEST checks execute code from the specification, which must be opted into
+  private static runsCode(check: ValidationCheck): boolean {
+    return check.kind === 'COMMAND' || check.kind === 'TEST';
+  }
+  
+  private static codeExecutionAllowed(): boolean {
+    return process.env.INFINITE_LOOP_ALLOW_COMMAND_RULES === 'true';
+  }
+  
+  // A disabled rule is skipped rather than failed, so its severity cannot reject iterations or stop the run
+  private static skipDisabled(check: ValidationCheck): CheckOutcome {
+    const message = `${check.kind} rules are disabled; set INFINITE_LOOP_ALLOW_COMMAND_RULES=true to run them`;
+    if (!this.warnedDisabled.has(check.kind)) {
+      this.warnedDisabled.add(check.kind);
+      console.error(`Skipping ${check.kind} validation rules; set INFINITE_LOOP_ALLOW_COMMAND_RULES=true to run them`);
+    }
+    return { passed: false, skipped: true, message };
+  }
+  
+  private static lineOf(content: string, index: number): number {
+    return content.slice(0, index).split('\n').length;
+  }
+}
@@ -0,0 +1,77 @@
+// Validation Sandbox Tests - Environment, Limits and Network Isolation Fallback
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Sandbox, SandboxLimits } from './sandbox.js';
+
+const limits: SandboxLimits = { timeoutMs: 10000, memoryMb: 512, cpuSeconds: 10 };
+
+function node(script: string): [string, string[]] {
+  return [process.execPath, ['-e', script]];
+}
+
+describe('Sandbox', () => {
+  let directory: string;
+  
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'sandbox-test-'));
+  });
+  
+  afterEach(async () => {
+    Sandbox['namespaceProbe'] = undefined;
+    await rm(directory, { recursive: true, force: true });
+  });
+  
+  it('passes only allowlisted variables, with HOME and TMPDIR in the working directory', async () => {
+    process.env.SANDBOX_TEST_SECRET = 'secret';
+    const [command, args] = node('console.log(JSON.stringify(process.env))');
+    
+    const result = await Sandbox.run(command, args, directory, { EXTRA: 'value' }, limits);
+    delete process.env.SANDBOX_TEST_SECRET;
+    
+    const env = JSON.parse(result.output);
+    expect(result.exitCode).toBe(0);
+    expect(env).toMatchObject({ HOME: directory, TMPDIR: directory, EXTRA: 'value' });
+    expect(env.SANDBOX_TEST_SECRET).toBeUndefined();
+  });
+  
+  it('reports the exit code and output tail', async () => {
+    const [command, args] = node('console.error("broken"); process.exit(4)');
+    
+    const result = await Sandbox.run(command, args, directory, {}, limits);
+    
+    expect(result).toMatchObject({ exitCode: 4, timedOut: false, output: 'broken' });
+  });
+  
+  it('kills the process group on timeout', async () => {
+    const [command, args] = node('setInterval(() => undefined, 1000)');
+    
+    const result = await Sandbox.run(command, args, directory, {}, { ...limits, timeoutMs: 300 });
+    
+    expect(result).toMatchObject({ exitCode: null, signal: 'SIGKILL', timedOut: true });
+  });
+  
+  describe('without network namespaces', () => {
+    beforeEach(() => {
+      Sandbox['namespaceProbe'] = Promise.resolve(false);
+    });
+    
+    it('guards Node processes', async () => {
+      const [command, args] = node(
+        'try { require("node:net").connect(80, "127.0.0.1"); } catch (error) { console.log(error.message); }'
+      );
+      
+      const result = await Sandbox.run(command, args, directory, {}, limits);
+      
+      expect(result).toMatchObject({ exitCode: 0, networkIsolation: 'guard' });
+      expect(result.output).toBe('Network access is disabled in the validation sandbox');
+    });
+    
+    it('refuses commands the guard cannot cover', async () => {
+      await expect(Sandbox.run('/bin/sh', ['-c', 'exit 0'], directory, {}, limits)).rejects.toThrow(
+        'Cannot isolate "/bin/sh" from the network: network namespaces are unavailable and only Node processes can be guarded'
+      );
+    });
+  });
+});
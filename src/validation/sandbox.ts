@@ -0,0 +1,148 @@
+// Validation Sandbox - Resource-Limited, Network-Isolated Child Processes
+
+import { spawn } from 'node:child_process';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export interface SandboxLimits {
+  timeoutMs: number;
+  memoryMb: number; // Data segment limit (RLIMIT_DATA)
+  cpuSeconds: number; // CPU time limit (RLIMIT_CPU)
+}
+
+export interface SandboxResult {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  output: string; // Interleaved stdout and stderr tail
+  networkIsolation: 'namespace' | 'guard';
+}
+
+const OUTPUT_TAIL_LENGTH = 4000;
+const ENV_ALLOWLIST = ['PATH', 'LANG'];
+
+// Loaded into Node processes when no network namespace is available
+const NETWORK_GUARD = `'use strict';
+const deny = () => { throw new Error('Network access is disabled in the validation sandbox'); };
+const net = require('node:net');
+const dns = require('node:dns');
+net.Socket.prototype.connect = deny;
+net.connect = net.createConnection = deny;
+dns.lookup = dns.resolve = deny;
+dns.promises.lookup = dns.promises.resolve = async () => deny();
+globalThis.fetch = async () => deny();
+`;
+
+export class Sandbox {
+  private static namespaceProbe?: Promise<boolean>;
+  
+  /**
+   * Run a command inside a working directory with CPU, memory and time limits and without network access
+   *
+   * Network access is removed with an unprivileged network namespace where the platform allows it;
+   * otherwise Node processes get a preload that rejects sockets, DNS and fetch, and any other command
+   * is refused because nothing would keep it off the network.
+   */
+  static async run(
+    command: string,
+    args: string[],
+    workingDirectory: string,
+    env: NodeJS.ProcessEnv,
+    limits: SandboxLimits
+  ): Promise<SandboxResult> {
+    const childEnv: NodeJS.ProcessEnv = { HOME: workingDirectory, TMPDIR: workingDirectory };
+    for (const key of ENV_ALLOWLIST) {
+      if (process.env[key] !== undefined) childEnv[key] = process.env[key];
+    }
+    Object.assign(childEnv, env);
+    
+    const namespace = await this.networkNamespaceAvailable();
+    if (!namespace && !this.isNode(command)) {
+      throw new Error(`Cannot isolate "${command}" from the network: network namespaces are unavailable and only Node processes can be guarded`);
+    }
+    if (!namespace) {
+      const guardPath = join(workingDirectory, '.network-guard.cjs');
+      await writeFile(guardPath, NETWORK_GUARD, 'utf8');
+      childEnv.NODE_OPTIONS = `--require ${JSON.stringify(guardPath)}`;
+    }
+    
+    // ulimit applies to the shell and everything it execs; the limits are passed as positional parameters
+    const limited = [
+      '/bin/sh', '-c', 'ulimit -t "$1" && ulimit -d "$2" && shift 2 && exec "$@"', 'sandbox',
+      String(limits.cpuSeconds), String(limits.memoryMb * 1024), command, ...args
+    ];
+    const [executable, ...executableArgs] = namespace ? ['unshare', '--net', '--map-root-user', ...limited] : limited;
+    
+    return new Promise(resolvePromise => {
+      // A separate process group lets the timeout kill everything the command started
+      const child = spawn(executable, executableArgs, {
+        cwd: workingDirectory,
+        env: childEnv,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: true
+      });
+      let output = '';
+      let timedOut = false;
+      
+      const timer = setTimeout(() => {
+        timedOut = true;
+        this.killGroup(child.pid);
+      }, limits.timeoutMs);
+      
+      const collect = (chunk: string) => {
+        output = (output + chunk).slice(-OUTPUT_TAIL_LENGTH);
+      };
+      child.stdout.setEncoding('utf8').on('data', collect);
+      child.stderr.setEncoding('utf8').on('data', collect);
+      
+      child.on('error', error => {
+        clearTimeout(timer);
+        resolvePromise({
+          exitCode: null,
+          signal: null,
+          timedOut: false,
+          output: `Failed to start "${command}": ${error.message}`,
+          networkIsolation: namespace ? 'namespace' : 'guard'
+        });
+      });
+      child.on('close', (exitCode, signal) => {
+        clearTimeout(timer);
+        this.killGroup(child.pid); // Reap background processes left by the command
+        resolvePromise({
+          exitCode,
+          signal,
+          timedOut,
+          output: output.trim(),
+          networkIsolation: namespace ? 'namespace' : 'guard'
+        });
+      });
+    });
+  }
+  
+  // The network guard is a Node preload, so it only covers commands that start Node itself
+  private static isNode(command: string): boolean {
+    return command === process.execPath || command === 'node';
+  }
+  
+  private static killGroup(pid: number | undefined): void {
+    if (pid === undefined) return;
+    try {
+      process.kill(-pid, 'SIGKILL');
+    } catch {
+      // The group has already exited
+    }
+  }
+  
+  // Probe once whether unprivileged network namespaces work on this host
+  private static networkNamespaceAvailable(): Promise<boolean> {
+    if (process.platform !== 'linux') {
+      return Promise.resolve(false);
+    }
+    this.namespaceProbe ??= new Promise(resolvePromise => {
+      const probe = spawn('unshare', ['--net', '--map-root-user', 'true'], { stdio: 'ignore' });
+      probe.on('error', () => resolvePromise(false));
+      probe.on('close', code => resolvePromise(code === 0));
+    });
+    return this.namespaceProbe;
+  }
+}
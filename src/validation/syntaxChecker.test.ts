@@ -0,0 +1,62 @@
+// Syntax Checker Tests - Script, JSON and Markdown Diagnostics
+
+import { SyntaxChecker } from './syntaxChecker.js';
+
+function jsonPosition(content: string) {
+  const [diagnostic] = SyntaxChecker.check(content, 'json');
+  return diagnostic && { line: diagnostic.line, column: diagnostic.column };
+}
+
+describe('SyntaxChecker', () => {
+  it('infers the language from the extension before the output format', () => {
+    expect(SyntaxChecker.languageFor('out/Search.tsx', 'json')).toBe('tsx');
+    expect(SyntaxChecker.languageFor('out/data.MJS')).toBe('javascript');
+    expect(SyntaxChecker.languageFor('out/iteration_1', 'Markdown ')).toBe('markdown');
+    expect(SyntaxChecker.languageFor('out/page.html', 'html')).toBeUndefined();
+  });
+  
+  it('reports TypeScript syntax errors but not type errors', () => {
+    expect(SyntaxChecker.check('import { x } from "missing";\nconst a: number = "b";\n', 'typescript')).toEqual([]);
+    expect(SyntaxChecker.check('export const App = () => <div>{x}</div>;\n', 'tsx')).toEqual([]);
+    
+    const [diagnostic] = SyntaxChecker.check('const a = 1;\nconst b = (;\n', 'typescript');
+    
+    expect(diagnostic).toMatchObject({ line: 2, column: 12, code: 'TS1109' });
+    expect(SyntaxChecker.format(diagnostic)).toBe('line 2, column 12: TS1109 Expression expected.');
+  });
+  
+  it('locates JSON errors from the parser position', () => {
+    expect(SyntaxChecker.check('{"a": [1, 2]}', 'json')).toEqual([]);
+    expect(jsonPosition('{\n  "a": 1,\n}')).toEqual({ line: 3, column: 1 });
+    expect(jsonPosition('{\n  "a" 1\n}')).toEqual({ line: 2, column: 7 });
+    expect(jsonPosition('{"a": [1, 2')).toEqual({ line: 1, column: 12 });
+    expect(jsonPosition('')).toEqual({ line: 1, column: 1 });
+  });
+  
+  it('locates unexpected JSON tokens in short and long input', () => {
+    const items = Array.from({ length: 30 }, (_, index) => index).join(', ');
+    
+    expect(jsonPosition('[1, 2, ]')).toEqual({ line: 1, column: 8 });
+    expect(jsonPosition(`[NaN, ${items}]`)).toEqual({ line: 1, column: 2 });
+    expect(jsonPosition(`[${items}, NaN]`)).toEqual({ line: 1, column: items.length + 4 });
+    expect(jsonPosition(`{\n  "items": [${items},\n  NaN, ${items}]\n}`)).toEqual({ line: 3, column: 3 });
+  });
+  
+  it('keeps the parser message for JSON errors', () => {
+    const [diagnostic] = SyntaxChecker.check("{'a': 1}", 'json');
+    
+    expect(diagnostic.message).toMatch(/JSON/);
+  });
+  
+  it('reports unclosed fences and comments, empty headings and skipped levels in Markdown', () => {
+    const markdown = '# Title\n\n### Details\n\n##\n\n<!-- note\n\n```ts\nconst a = 1;\n';
+    
+    expect(SyntaxChecker.check(markdown, 'markdown')).toEqual([
+      { line: 3, column: 1, message: 'Heading level 3 skips level 2' },
+      { line: 5, column: 1, message: 'Empty heading' },
+      { line: 7, column: 1, message: 'HTML comment is never closed' },
+      { line: 9, column: 1, message: 'Code fence ``` is never closed' }
+    ]);
+    expect(SyntaxChecker.check('# Title\n\n```md\n#### not a heading <!--\n```\n\n## Section\n', 'markdown')).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+// Syntax Checker - Parse Diagnostics for Code, JSON and Markdown Artifacts
+
+import ts from 'typescript';
+import { extname } from 'node:path';
+import { SyntaxDiagnostic, SyntaxLanguage } from '../types/index.js';
+
+const LANGUAGE_ALIASES: Record<string, SyntaxLanguage> = {
+  ts: 'typescript', mts: 'typescript', cts: 'typescript', typescript: 'typescript',
+  tsx: 'tsx',
+  js: 'javascript', mjs: 'javascript', cjs: 'javascript', javascript: 'javascript',
+  jsx: 'jsx',
+  json: 'json',
+  md: 'markdown', markdown: 'markdown'
+};
+
+const SCRIPT_FILE_NAMES: Partial<Record<SyntaxLanguage, string>> = {
+  typescript: 'artifact.ts',
+  tsx: 'artifact.tsx',
+  javascript: 'artifact.js',
+  jsx: 'artifact.jsx'
+};
+
+const MAX_DIAGNOSTICS = 20;
+const JSON_CONTEXT_LENGTH = 10; // Characters V8 quotes either side of an unexpected JSON token
+
+export class SyntaxChecker {
+  /**
+   * Infer the language from the artifact extension, falling back to the output format
+   */
+  static languageFor(outputPath: string, format?: string): SyntaxLanguage | undefined {
+    const extension = extname(outputPath).slice(1).toLowerCase();
+    return LANGUAGE_ALIASES[extension] ?? (format ? LANGUAGE_ALIASES[format.trim().toLowerCase()] : undefined);
+  }
+  
+  /**
+   * Parse content and report syntax errors with 1-based line and column
+   */
+  static check(content: string, language: SyntaxLanguage): SyntaxDiagnostic[] {
+    switch (language) {
+      case 'json':
+        return this.checkJson(content);
+      case 'markdown':
+        return this.checkMarkdown(content);
+      default:
+        return this.checkScript(content, language);
+    }
+  }
+  
+  /**
+   * Format a diagnostic as "line L, column C: message"
+   */
+  static format(diagnostic: SyntaxDiagnostic): string {
+    return `line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.code ? `${diagnostic.code} ` : ''}${diagnostic.message}`;
+  }
+  
+  // Syntactic diagnostics only: no type checking, so missing module declarations are not errors
+  private static checkScript(content: string, language: SyntaxLanguage): SyntaxDiagnostic[] {
+    const { diagnostics = [] } = ts.transpileModule(content, {
+      fileName: SCRIPT_FILE_NAMES[language],
+      reportDiagnostics: true,
+      compilerOptions: {
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        allowJs: true
+      }
+    });
+    
+    return diagnostics
+      .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+      .slice(0, MAX_DIAGNOSTICS)
+      .map(diagnostic => {
+        const position = diagnostic.file && diagnostic.start !== undefined
+          ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+          : { line: 0, character: 0 };
+        return {
+          line: position.line + 1,
+          column: position.character + 1,
+          message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' '),
+          code: `TS${diagnostic.code}`
+        };
+      });
+  }
+  
+  private static checkJson(content: string): SyntaxDiagnostic[] {
+    try {
+      JSON.parse(content);
+      return [];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return [{ ...this.positionAt(content, this.jsonErrorOffset(content, message)), message }];
+    }
+  }
+  
+  /**
+   * Offset of a JSON.parse error, recovered from the V8 message
+   *
+   * Most messages end in "at position N". Unexpected tokens instead quote the whole input when it is short,
+   * or up to 10 characters either side of the token, marking truncated ends with "...".
+   */
+  private static jsonErrorOffset(content: string, message: string): number {
+    const position = message.match(/ at position (\d+)/);
+    if (position) {
+      return Math.min(Number(position[1]), content.length);
+    }
+    if (message.startsWith('Unexpected end of JSON input')) {
+      return content.length;
+    }
+    
+    const token = message.match(/^Unexpected token '(.)', (\.\.\.)?"(.*)"(\.\.\.)? is not valid JSON$/su);
+    if (!token) {
+      return 0;
+    }
+    const [, character, truncatedStart, context, truncatedEnd] = token;
+    if (truncatedStart && truncatedEnd) {
+      return Math.max(0, content.indexOf(context)) + JSON_CONTEXT_LENGTH;
+    }
+    if (truncatedStart) {
+      return content.length - context.length + JSON_CONTEXT_LENGTH;
+    }
+    if (truncatedEnd) {
+      return context.length - JSON_CONTEXT_LENGTH;
+    }
+    return Math.max(0, content.indexOf(character));
+  }
+  
+  // Structural problems that break rendering: unclosed fences and comments, empty or skipped heading levels
+  private static checkMarkdown(content: string): SyntaxDiagnostic[] {
+    const diagnostics: SyntaxDiagnostic[] = [];
+    const lines = content.split('\n');
+    let fence: { marker: string; line: number } | undefined;
+    let previousLevel = 0;
+    
+    lines.forEach((line, index) => {
+      const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+      if (fence) {
+        if (fenceMatch && fenceMatch[1][0] === fence.marker[0] && fenceMatch[1].length >= fence.marker.length
+          && line.trim() === fenceMatch[1]) {
+          fence = undefined;
+        }
+        return;
+      }
+      if (fenceMatch) {
+        fence = { marker: fenceMatch[1], line: index + 1 };
+        return;
+      }
+      
+      const heading = line.match(/^\s{0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/);
+      if (heading) {
+        const level = heading[1].length;
+        if (!heading[2]) {
+          diagnostics.push({ line: index + 1, column: 1, message: 'Empty heading' });
+        }
+        if (previousLevel > 0 && level > previousLevel + 1) {
+          diagnostics.push({ line: index + 1, column: 1, message: `Heading level ${level} skips level ${previousLevel + 1}` });
+        }
+        previousLevel = level;
+      }
+    });
+    
+    if (fence) {
+      diagnostics.push({ line: fence.line, column: 1, message: `Code fence ${fence.marker} is never closed` });
+    }
+    
+    const withoutCode = content.replace(/^\s{0,3}(`{3,}|~{3,})[\s\S]*?^\s{0,3}\1\s*$/gm, match => match.replace(/[^\n]/g, ' '));
+    const commentStart = withoutCode.lastIndexOf('<!--');
+    if (commentStart >= 0 && withoutCode.indexOf('-->', commentStart) < 0) {
+      diagnostics.push({ ...this.positionAt(content, commentStart), message: 'HTML comment is never closed' });
+    }
+    
+    return diagnostics
+      .sort((a, b) => a.line - b.line || a.column - b.column)
+      .slice(0, MAX_DIAGNOSTICS);
+  }
+  
+  private static positionAt(text: string, offset: number): { line: number; column: number } {
+    const before = text.slice(0, offset).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+  }
+}
@@ -0,0 +1,100 @@
+// Uniqueness Scorer Tests - MinHash Similarity, Thresholds and the Signature Cache
+
+import { mkdtemp, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadExampleSpecification } from '../testing/fixtures.js';
+import { DEFAULT_UNIQUENESS_THRESHOLD, MinHash, UniquenessScorer } from './uniquenessScorer.js';
+
+const specification = loadExampleSpecification();
+
+const SEARCH = 'export function Search({ query }) { return <input value={query} placeholder="Search" />; }';
+const GALLERY = 'A gallery of landscape photographs arranged by season, with captions describing each location.';
+
+describe('MinHash', () => {
+  it('estimates identical text as fully similar and unrelated text as dissimilar', () => {
+    expect(MinHash.similarity(MinHash.signature(SEARCH), MinHash.signature(SEARCH))).toBe(1);
+    expect(MinHash.similarity(MinHash.signature(SEARCH), MinHash.signature(GALLERY))).toBeLessThan(0.1);
+  });
+  
+  it('ignores case and whitespace when shingling', () => {
+    expect(MinHash.shingles('Hello   World\nAgain')).toEqual(MinHash.shingles('hello world again'));
+    expect(MinHash.shingles('one two')).toEqual(new Set(['one two']));
+    expect(MinHash.shingles('')).toEqual(new Set());
+  });
+});
+
+describe('UniquenessScorer', () => {
+  let directory: string;
+  
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'uniqueness-scorer-'));
+  });
+  
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+  
+  async function iteration(number: number, content: string) {
+    const filePath = join(directory, `SearchComponent_${number}.tsx`);
+    await writeFile(filePath, content);
+    return { number, filePath };
+  }
+  
+  it('scores copies at 0 and reports the nearest neighbour', async () => {
+    const iterations = [await iteration(1, GALLERY), await iteration(2, SEARCH)];
+    
+    const report = await new UniquenessScorer().score(SEARCH, 3, iterations, specification);
+    
+    expect(report.score).toBe(0);
+    expect(report.comparedIterations).toBe(2);
+    expect(report.nearestNeighbor).toEqual({ iterationNumber: 2, filePath: iterations[1].filePath, similarity: 1 });
+    expect(report.belowThreshold).toBe(true);
+  });
+  
+  it('skips its own number and files that no longer exist', async () => {
+    const iterations = [await iteration(1, SEARCH), await iteration(2, SEARCH)];
+    await unlink(iterations[1].filePath);
+    
+    const report = await new UniquenessScorer().score(SEARCH, 1, iterations, specification);
+    
+    expect(report).toMatchObject({ score: 100, comparedIterations: 0, belowThreshold: false });
+    expect(report.nearestNeighbor).toBeUndefined();
+  });
+  
+  it('rescores a file after it changes', async () => {
+    const scorer = new UniquenessScorer();
+    const iterations = [await iteration(1, SEARCH)];
+    expect((await scorer.score(SEARCH, 2, iterations, specification)).score).toBe(0);
+    
+    await writeFile(iterations[0].filePath, GALLERY);
+    
+    expect((await scorer.score(SEARCH, 2, iterations, specification)).score).toBeGreaterThan(90);
+  });
+  
+  it('keeps only the most recently used signatures', async () => {
+    const scorer = new UniquenessScorer(2);
+    const iterations = [await iteration(1, SEARCH), await iteration(2, GALLERY), await iteration(3, SEARCH)];
+    
+    await scorer.score(GALLERY, 4, iterations, specification);
+    
+    expect(Array.from(scorer['signatureCache'].keys())).toEqual([iterations[1].filePath, iterations[2].filePath]);
+  });
+  
+  it('uses the strictest UNIQUENESS rule threshold', () => {
+    const withRules = (...thresholds: (number | undefined)[]) => ({
+      ...specification,
+      validationRules: thresholds.map(threshold => ({
+        type: 'UNIQUENESS' as const,
+        description: 'Distinct',
+        validator: 'MinHash similarity',
+        severity: 'WARNING' as const,
+        threshold
+      }))
+    });
+    
+    expect(UniquenessScorer.thresholdFor(withRules())).toBeUndefined();
+    expect(UniquenessScorer.thresholdFor(withRules(undefined))).toBe(DEFAULT_UNIQUENESS_THRESHOLD);
+    expect(UniquenessScorer.thresholdFor(withRules(40, 75))).toBe(75);
+  });
+});
@@ -0,0 +1,190 @@
+// Uniqueness Scorer - MinHash Content Similarity Across Iterations
+
+import { readFile, stat } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import {
+  IterationInfo,
+  SimilarityMatch,
+  UniquenessReport,
+  UniversalSpecification
+} from '../types/index.js';
+
+export const MINHASH_PERMUTATIONS = 128;
+export const SHINGLE_SIZE = 3; // Tokens per shingle
+export const DEFAULT_UNIQUENESS_THRESHOLD = 60;
+export const MAX_CACHED_SIGNATURES = 1000; // About 0.5 MB of signatures
+
+// Words, numbers and individual symbols, so code and prose both shingle meaningfully
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+
+export type MinHashSignature = Uint32Array;
+
+// An iteration that new content is compared against
+export type ComparedIteration = Pick<IterationInfo, 'number' | 'filePath'>;
+
+export class MinHash {
+  private static seeds: Uint32Array = MinHash.createSeeds(MINHASH_PERMUTATIONS);
+  
+  /**
+   * Compute the MinHash signature of text from its token shingles
+   */
+  static signature(text: string): MinHashSignature {
+    const signature = new Uint32Array(MINHASH_PERMUTATIONS).fill(0xffffffff);
+    
+    for (const shingle of this.shingles(text)) {
+      const base = this.hashString(shingle);
+      for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+        const value = this.mix(base ^ this.seeds[i]);
+        if (value < signature[i]) {
+          signature[i] = value;
+        }
+      }
+    }
+    return signature;
+  }
+  
+  /**
+   * Estimate Jaccard similarity as the fraction of matching signature slots
+   */
+  static similarity(a: MinHashSignature, b: MinHashSignature): number {
+    let matches = 0;
+    for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+      if (a[i] === b[i]) matches++;
+    }
+    return matches / MINHASH_PERMUTATIONS;
+  }
+  
+  /**
+   * Split text into overlapping lowercase token shingles
+   */
+  static shingles(text: string): Set<string> {
+    const tokens = text.toLowerCase().match(TOKEN_PATTERN) || [];
+    const shingles = new Set<string>();
+    
+    if (tokens.length < SHINGLE_SIZE) {
+      if (tokens.length > 0) shingles.add(tokens.join(' '));
+      return shingles;
+    }
+    for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+      shingles.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    return shingles;
+  }
+  
+  // FNV-1a over UTF-16 code units
+  private static hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+  
+  // Murmur3 finalizer; XOR with a per-permutation seed then mixing acts as an independent hash function
+  private static mix(value: number): number {
+    let hash = value >>> 0;
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+  }
+  
+  private static createSeeds(count: number): Uint32Array {
+    const seeds = new Uint32Array(count);
+    let state = 0x9e3779b9;
+    for (let i = 0; i < count; i++) {
+      state = this.mix(state + 0x9e3779b9);
+      seeds[i] = state;
+    }
+    return seeds;
+  }
+}
+
+export class UniquenessScorer {
+  // Least recently used first; entries are invalidated when size or mtime change
+  private signatureCache: Map<string, { mtimeMs: number; size: number; signature: MinHashSignature }> = new Map();
+  
+  constructor(private maxCachedSignatures: number = MAX_CACHED_SIGNATURES) {}
+  
+  /**
+   * Score content against every other iteration in the comparison set
+   *
+   * Files that no longer exist, such as rejected siblings, are skipped.
+   */
+  async score(
+    content: string,
+    iterationNumber: number,
+    iterations: ComparedIteration[],
+    specification: UniversalSpecification
+  ): Promise<UniquenessReport> {
+    const signature = MinHash.signature(content);
+    const others = iterations.filter(iteration => iteration.number !== iterationNumber);
+    
+    let nearestNeighbor: SimilarityMatch | undefined;
+    let comparedIterations = 0;
+    
+    for (const iteration of others) {
+      const other = await this.signatureOf(iteration.filePath);
+      if (!other) continue;
+      
+      comparedIterations++;
+      const similarity = MinHash.similarity(signature, other);
+      if (!nearestNeighbor || similarity > nearestNeighbor.similarity) {
+        nearestNeighbor = {
+          iterationNumber: iteration.number,
+          filePath: iteration.filePath,
+          similarity: Math.round(similarity * 1000) / 1000
+        };
+      }
+    }
+    
+    const score = Math.round((1 - (nearestNeighbor?.similarity ?? 0)) * 100);
+    const threshold = UniquenessScorer.thresholdFor(specification);
+    
+    return {
+      score,
+      nearestNeighbor,
+      comparedIterations,
+      threshold,
+      belowThreshold: threshold !== undefined && score < threshold
+    };
+  }
+  
+  /**
+   * Minimum uniqueness score required by the specification's UNIQUENESS rules, if any
+   *
+   * Rules without an explicit threshold use DEFAULT_UNIQUENESS_THRESHOLD; the strictest rule wins.
+   */
+  static thresholdFor(specification: UniversalSpecification): number | undefined {
+    const thresholds = specification.validationRules
+      .filter(rule => rule.type === 'UNIQUENESS')
+      .map(rule => rule.threshold ?? DEFAULT_UNIQUENESS_THRESHOLD);
+    return thresholds.length > 0 ? Math.max(...thresholds) : undefined;
+  }
+  
+  private async signatureOf(filePath: string): Promise<MinHashSignature | undefined> {
+    const key = resolve(filePath);
+    try {
+      const { mtimeMs, size } = await stat(key);
+      const cached = this.signatureCache.get(key);
+      this.signatureCache.delete(key);
+      if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+        this.signatureCache.set(key, cached);
+        return cached.signature;
+      }
+      
+      const signature = MinHash.signature(await readFile(key, 'utf8'));
+      this.signatureCache.set(key, { mtimeMs, size, signature });
+      if (this.signatureCache.size > this.maxCachedSignatures) {
+        this.signatureCache.delete(this.signatureCache.keys().next().value!);
+      }
+      return signature;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined; // Removed since discovery
+      throw error;
+    }
+  }
+}